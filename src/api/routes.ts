@@ -1,96 +1,479 @@
-import type { Express } from 'express';
+import { Router, type Express, type Response } from 'express';
 import { Vec3 } from 'vec3';
-import type { MiningEngine } from '../mining/mining-engine.js';
-import type { PingMonitor } from '../network/ping-monitor.js';
-import type { Statistics } from '../features/statistics.js';
-import type { PlayerList } from '../features/player-list.js';
-import type { ChatMonitor } from '../features/chat-monitor.js';
-import type { InventoryManager } from '../inventory/inventory-manager.js';
-import { getLogHistory } from '../core/logger.js';
+import type { Area, AreaShape, MiningOptions } from '../types.js';
+import type { BotFleet } from '../core/bot-fleet.js';
+import type { BotInstance } from '../core/bot-instance.js';
+import type { MiningCoordinator } from '../mining/mining-coordinator.js';
+import type { ExclusionZones } from '../safety/exclusion-zones.js';
+import { resolveBlockFilter } from '../mining/block-filter.js';
+import { DEFAULT_VEIN_OPTIONS } from '../mining/vein-finder.js';
+import { getPlanner, listPlanners } from '../mining/planner.js';
+import { normalizeArea } from '../mining/area-utils.js';
+import { parseShape, shapeBounds } from '../mining/area-shapes.js';
+import { getLogHistory, withBotLogs } from '../core/logger.js';
+import { InvalidTransitionError } from '../mining/mining-state-machine.js';
 
+/**
+ * Parse the two area corners from a request body. Returns null if any is missing.
+ * With a shape, the area is the shape's bounding box and corners are ignored.
+ */
+function parseArea(body: any, shape?: AreaShape): Area | null {
+  if (shape) {
+    const bounds = shapeBounds(shape);
+    return { corner1: bounds.min, corner2: bounds.max };
+  }
+
+  const { x1, y1, z1, x2, y2, z2 } = body ?? {};
+  if ([x1, y1, z1, x2, y2, z2].some(v => v === undefined || v === null)) return null;
+
+  return {
+    corner1: new Vec3(Number(x1), Number(y1), Number(z1)),
+    corner2: new Vec3(Number(x2), Number(y2), Number(z2)),
+  };
+}
+
+/**
+ * Parse per-job mining options. Throws with a user-facing message on bad input.
+ */
+function parseMiningOptions(body: any): Omit<MiningOptions, 'jobId'> {
+  const options: Omit<MiningOptions, 'jobId'> = {};
+  const filter = resolveBlockFilter(body?.filter);
+  if (filter.mode !== 'all') options.filter = filter;
+
+  options.planner = getPlanner(body?.planner ? String(body.planner) : undefined).name;
+
+  if (body?.vein) {
+    const radius = body.veinRadius ?? DEFAULT_VEIN_OPTIONS.radius;
+    if (!Number.isInteger(Number(radius)) || Number(radius) < 0 || Number(radius) > 32) {
+      throw new Error('veinRadius must be an integer between 0 and 32');
+    }
+    options.vein = { ...DEFAULT_VEIN_OPTIONS, radius: Number(radius) };
+  }
+
+  if (body?.verify) options.verify = true;
+  if (body?.shape) options.shape = parseShape(body.shape);
+
+  return options;
+}
+
+/**
+ * Answer a rejected mining command: 409 when it doesn't fit the current
+ * status (e.g. resume while idle), 400 for anything else.
+ */
+function sendCommandError(res: Response, err: any): void {
+  res.status(err instanceof InvalidTransitionError ? 409 : 400).json({ error: err.message });
+}
+
+/**
+ * 409 response for a command that needs the bot to be free. Returns true if sent.
+ */
+function rejectIfBusy(res: Response, instance: BotInstance): boolean {
+  if (!instance.miningEngine.isBusy()) return false;
+  res.status(409).json({ error: `Bot is busy (${instance.miningEngine.getState().status})` });
+  return true;
+}
+
+/**
+ * The bot a per-bot route acts on, resolved by the router middleware.
+ */
+function botOf(res: Response): BotInstance {
+  return res.locals.bot;
+}
+
+/**
+ * Per-bot routes are served under `/api/bots/:botId/...` and, for the
+ * primary bot, under plain `/api/...`.
+ */
 export function setupRoutes(
   app: Express,
-  miningEngine: MiningEngine,
-  pingMonitor: PingMonitor,
-  statistics: Statistics,
-  playerList: PlayerList,
-  chatMonitor: ChatMonitor,
-  inventoryManager: InventoryManager,
+  fleet: BotFleet,
+  coordinator: MiningCoordinator,
+  exclusionZones: ExclusionZones,
 ): void {
+  const router = Router({ mergeParams: true });
+
+  router.use((req, res, next) => {
+    const botId = (req.params as { botId?: string }).botId;
+    const bot = botId ? fleet.get(botId) : fleet.primary();
+    if (!bot) {
+      return res.status(404).json({ error: botId ? 'Bot not found' : 'No bot running yet' });
+    }
+    res.locals.bot = bot;
+    withBotLogs(bot.id, next);
+  });
+
+  // ─── Bots ───
+
+  app.get('/api/bots', (_req, res) => {
+    res.json(fleet.summaries());
+  });
+
+  // ─── Coordinated mining ───
+
+  app.get('/api/coordinator', (_req, res) => {
+    res.json(coordinator.getStatus());
+  });
+
+  app.post('/api/coordinator/start', (req, res) => {
+    let options;
+    try {
+      options = parseMiningOptions(req.body);
+    } catch (err: any) {
+      return res.status(400).json({ error: err.message });
+    }
+
+    const area = parseArea(req.body, options.shape);
+    if (!area) {
+      return res.status(400).json({ error: 'All coordinates required (x1,y1,z1,x2,y2,z2)' });
+    }
+
+    try {
+      res.json({ ok: true, run: coordinator.start(area, options) });
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  });
+
+  app.post('/api/coordinator/stop', (_req, res) => {
+    coordinator.stop();
+    res.json({ ok: true, message: 'Coordinated run stopped' });
+  });
 
   // ─── Mining ───
 
-  app.get('/api/status', (_req, res) => {
+  router.get('/status', (_req, res) => {
+    const { miningEngine } = botOf(res);
     res.json(miningEngine.getState());
   });
 
-  app.post('/api/start', (req, res) => {
-    const { x1, y1, z1, x2, y2, z2 } = req.body;
+  router.post('/start', (req, res) => {
+    const { miningEngine } = botOf(res);
+    let options;
+    try {
+      options = parseMiningOptions(req.body);
+    } catch (err: any) {
+      return res.status(400).json({ error: err.message });
+    }
 
-    if ([x1, y1, z1, x2, y2, z2].some(v => v === undefined || v === null)) {
+    const area = parseArea(req.body, options.shape);
+    if (!area) {
       return res.status(400).json({ error: 'All coordinates required (x1,y1,z1,x2,y2,z2)' });
     }
+    if (rejectIfBusy(res, botOf(res))) return;
 
-    const area = {
-      corner1: new Vec3(Number(x1), Number(y1), Number(z1)),
-      corner2: new Vec3(Number(x2), Number(y2), Number(z2)),
-    };
-
-    miningEngine.start(area).catch(() => {});
+    miningEngine.start(area, options).catch(() => {});
     res.json({ ok: true, message: 'Mining started' });
   });
 
-  app.post('/api/pause', (_req, res) => {
-    miningEngine.pause();
+  router.post('/fill', (req, res) => {
+    const { miningEngine } = botOf(res);
+    let options;
+    try {
+      options = parseMiningOptions(req.body);
+    } catch (err: any) {
+      return res.status(400).json({ error: err.message });
+    }
+
+    const block = req.body?.block ? String(req.body.block) : '';
+    if (!block) {
+      return res.status(400).json({ error: 'block required' });
+    }
+    if (!miningEngine.canPlace(block)) {
+      return res.status(400).json({ error: `Unknown or unplaceable block: ${block}` });
+    }
+
+    const area = parseArea(req.body, options.shape);
+    if (!area) {
+      return res.status(400).json({ error: 'All coordinates required (x1,y1,z1,x2,y2,z2)' });
+    }
+    if (rejectIfBusy(res, botOf(res))) return;
+
+    // The mining filter and vein options mean nothing when placing
+    const { filter: _filter, vein: _vein, verify: _verify, ...rest } = options;
+    miningEngine.start(area, { ...rest, fill: { block } }).catch(() => {});
+    res.json({ ok: true, message: `Filling with ${block}` });
+  });
+
+  router.post('/pause', (_req, res) => {
+    const { miningEngine } = botOf(res);
+    try {
+      miningEngine.pause();
+    } catch (err: any) {
+      return sendCommandError(res, err);
+    }
     res.json({ ok: true, message: 'Mining paused' });
   });
 
-  app.post('/api/resume', (_req, res) => {
-    miningEngine.resume();
+  router.post('/resume', (_req, res) => {
+    const { miningEngine } = botOf(res);
+    try {
+      miningEngine.resume();
+    } catch (err: any) {
+      return sendCommandError(res, err);
+    }
     res.json({ ok: true, message: 'Mining resumed' });
   });
 
-  app.post('/api/stop', (_req, res) => {
-    miningEngine.stop();
+  router.post('/stop', (_req, res) => {
+    const { miningEngine } = botOf(res);
+    try {
+      miningEngine.stop();
+    } catch (err: any) {
+      return sendCommandError(res, err);
+    }
     res.json({ ok: true, message: 'Mining stopped' });
   });
 
+  app.get('/api/planners', (_req, res) => {
+    res.json(listPlanners());
+  });
+
+  router.post('/area/scan', async (req, res) => {
+    const { areaScanner } = botOf(res);
+    let filter;
+    let shape;
+    try {
+      filter = resolveBlockFilter(req.body.filter);
+      shape = req.body.shape ? parseShape(req.body.shape) : undefined;
+    } catch (err: any) {
+      return res.status(400).json({ error: err.message });
+    }
+
+    const area = parseArea(req.body, shape);
+    if (!area) {
+      return res.status(400).json({ error: 'All coordinates required (x1,y1,z1,x2,y2,z2)' });
+    }
+
+    try {
+      res.json(await areaScanner.scan(normalizeArea(area), filter, shape));
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  router.get('/area/scan', (_req, res) => {
+    const { areaScanner } = botOf(res);
+    const scan = areaScanner.getLastScan();
+    if (!scan) {
+      return res.status(404).json({ error: 'No scan yet' });
+    }
+    res.json(scan);
+  });
+
+  router.post('/simulate', async (req, res) => {
+    const { jobSimulator } = botOf(res);
+    let options;
+    try {
+      options = parseMiningOptions(req.body);
+    } catch (err: any) {
+      return res.status(400).json({ error: err.message });
+    }
+
+    const area = parseArea(req.body, options.shape);
+    if (!area) {
+      return res.status(400).json({ error: 'All coordinates required (x1,y1,z1,x2,y2,z2)' });
+    }
+
+    try {
+      res.json(await jobSimulator.simulate(normalizeArea(area), options));
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── Job queue ───
+
+  router.get('/jobs', (_req, res) => {
+    const { jobQueue } = botOf(res);
+    res.json(jobQueue.list());
+  });
+
+  router.post('/jobs', (req, res) => {
+    const { jobQueue } = botOf(res);
+    let options;
+    try {
+      options = parseMiningOptions(req.body);
+    } catch (err: any) {
+      return res.status(400).json({ error: err.message });
+    }
+
+    const area = parseArea(req.body, options.shape);
+    if (!area) {
+      return res.status(400).json({ error: 'All coordinates required (x1,y1,z1,x2,y2,z2)' });
+    }
+
+    const name = typeof req.body.name === 'string' ? req.body.name.trim() : undefined;
+    const job = jobQueue.add(area, options, name);
+    res.json({ ok: true, job });
+  });
+
+  router.post('/jobs/reorder', (req, res) => {
+    const { jobQueue } = botOf(res);
+    const { ids } = req.body;
+    if (!Array.isArray(ids) || ids.some(id => typeof id !== 'string')) {
+      return res.status(400).json({ error: 'ids must be an array of job ids' });
+    }
+
+    try {
+      jobQueue.reorder(ids);
+    } catch (err: any) {
+      return res.status(400).json({ error: err.message });
+    }
+    res.json({ ok: true, jobs: jobQueue.list() });
+  });
+
+  router.get('/jobs/current/revisit', (_req, res) => {
+    const { miningEngine } = botOf(res);
+    const positions = miningEngine.getRevisitList();
+    res.json({ count: positions.length, positions });
+  });
+
+  router.get('/jobs/current/failures', (_req, res) => {
+    const { miningEngine } = botOf(res);
+    const failures = miningEngine.getFailures();
+    res.json({ count: failures.length, failures });
+  });
+
+  router.delete('/jobs/:id', (req, res) => {
+    const { jobQueue } = botOf(res);
+    const job = jobQueue.cancel(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    res.json({ ok: true, job });
+  });
+
+  // ─── Exclusion zones ───
+
+  app.get('/api/zones', (_req, res) => {
+    res.json(exclusionZones.list());
+  });
+
+  app.post('/api/zones', (req, res) => {
+    const area = parseArea(req.body);
+    if (!area) {
+      return res.status(400).json({ error: 'All coordinates required (x1,y1,z1,x2,y2,z2)' });
+    }
+
+    const name = typeof req.body.name === 'string' && req.body.name.trim()
+      ? req.body.name.trim()
+      : `Zone ${exclusionZones.list().length + 1}`;
+    const zone = exclusionZones.add(name, area);
+    res.json({ ok: true, zone });
+  });
+
+  app.delete('/api/zones/:id', (req, res) => {
+    if (!exclusionZones.remove(req.params.id)) {
+      return res.status(404).json({ error: 'Zone not found' });
+    }
+    res.json({ ok: true });
+  });
+
   // ─── Navigation ───
 
-  app.post('/api/goto-base', (_req, res) => {
+  router.post('/goto-base', (_req, res) => {
+    const { miningEngine } = botOf(res);
+    if (rejectIfBusy(res, botOf(res))) return;
+
     miningEngine.goToBase().catch(() => {});
     res.json({ ok: true, message: 'Navigating to base' });
   });
 
   // ─── Info ───
 
-  app.get('/api/ping', (_req, res) => {
+  router.get('/ping', (_req, res) => {
+    const { pingMonitor } = botOf(res);
     res.json(pingMonitor.getData());
   });
 
-  app.get('/api/stats', (_req, res) => {
+  router.get('/stats', (_req, res) => {
+    const { statistics } = botOf(res);
     res.json(statistics.getStats());
   });
 
-  app.get('/api/players', (_req, res) => {
+  router.get('/players', (_req, res) => {
+    const { playerList } = botOf(res);
     res.json(playerList.getPlayers());
   });
 
-  app.get('/api/chat', (_req, res) => {
+  router.get('/chat', (_req, res) => {
+    const { chatMonitor } = botOf(res);
     res.json(chatMonitor.getHistory().slice(-50));
   });
 
-  app.get('/api/inventory', (_req, res) => {
-    res.json(inventoryManager.getHotbar());
+  router.get('/inventory', (_req, res) => {
+    const { inventoryManager } = botOf(res);
+    res.json(inventoryManager.getInventory());
+  });
+
+  router.get('/tools', (_req, res) => {
+    const { toolSelector } = botOf(res);
+    res.json(toolSelector.getReport());
   });
 
   app.get('/api/logs', (_req, res) => {
     res.json(getLogHistory().slice(-200));
   });
 
+  // ─── Inventory actions ───
+  // Only while the bot is free: a run equips and spends items itself
+
+  router.post('/inventory/drop', async (req, res) => {
+    const { inventoryManager } = botOf(res);
+    if (rejectIfBusy(res, botOf(res))) return;
+
+    try {
+      const dropped = await inventoryManager.dropSlot(req.body.slot, req.body.count);
+      res.json({ ok: true, dropped });
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  });
+
+  router.post('/inventory/equip', async (req, res) => {
+    const { inventoryManager } = botOf(res);
+    if (rejectIfBusy(res, botOf(res))) return;
+
+    try {
+      await inventoryManager.equipSlot(req.body.slot, req.body.destination ?? 'hand');
+      res.json({ ok: true });
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  });
+
+  router.post('/inventory/move', async (req, res) => {
+    const { inventoryManager } = botOf(res);
+    if (rejectIfBusy(res, botOf(res))) return;
+
+    try {
+      await inventoryManager.moveSlot(req.body.from, req.body.to);
+      res.json({ ok: true });
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  });
+
+  router.post('/inventory/deposit', async (req, res) => {
+    const { inventoryManager, miningEngine } = botOf(res);
+    if (rejectIfBusy(res, botOf(res))) return;
+
+    let deposited;
+    try {
+      deposited = await inventoryManager.depositSlot(req.body.slot, miningEngine.getState().area);
+    } catch (err: any) {
+      return res.status(400).json({ error: err.message });
+    }
+    if (deposited === 0) {
+      return res.status(400).json({ error: 'Nothing deposited: no reachable chest, or it is full' });
+    }
+    res.json({ ok: true, deposited });
+  });
+
   // ─── Chat send ───
 
-  app.post('/api/chat', (req, res) => {
+  router.post('/chat', (req, res) => {
+    const { chatMonitor } = botOf(res);
     const { message } = req.body;
     if (!message || typeof message !== 'string') {
       return res.status(400).json({ error: 'Message required' });
@@ -98,4 +481,7 @@ export function setupRoutes(
     chatMonitor.sendMessage(message);
     res.json({ ok: true });
   });
+
+  app.use('/api/bots/:botId', router);
+  app.use('/api', router);
 }
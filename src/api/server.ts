@@ -3,12 +3,9 @@ import http from 'http';
 import path from 'path';
 import type { BotEventBus } from '../core/event-bus.js';
 import type { AppConfig } from '../core/config.js';
-import type { MiningEngine } from '../mining/mining-engine.js';
-import type { PingMonitor } from '../network/ping-monitor.js';
-import type { Statistics } from '../features/statistics.js';
-import type { PlayerList } from '../features/player-list.js';
-import type { ChatMonitor } from '../features/chat-monitor.js';
-import type { InventoryManager } from '../inventory/inventory-manager.js';
+import type { BotFleet } from '../core/bot-fleet.js';
+import type { MiningCoordinator } from '../mining/mining-coordinator.js';
+import type { ExclusionZones } from '../safety/exclusion-zones.js';
 import { setupRoutes } from './routes.js';
 import { WebSocketManager } from './websocket.js';
 import { createLogger } from '../core/logger.js';
@@ -18,12 +15,9 @@ const log = createLogger('Server');
 export function setupServer(deps: {
   eventBus: BotEventBus;
   config: AppConfig;
-  miningEngine: MiningEngine;
-  pingMonitor: PingMonitor;
-  statistics: Statistics;
-  playerList: PlayerList;
-  chatMonitor: ChatMonitor;
-  inventoryManager: InventoryManager;
+  fleet: BotFleet;
+  coordinator: MiningCoordinator;
+  exclusionZones: ExclusionZones;
 }): void {
   const app = express();
   app.use(express.json());
@@ -32,30 +26,13 @@ export function setupServer(deps: {
   app.use(express.static(path.join(process.cwd(), 'public')));
 
   // REST API routes
-  setupRoutes(
-    app,
-    deps.miningEngine,
-    deps.pingMonitor,
-    deps.statistics,
-    deps.playerList,
-    deps.chatMonitor,
-    deps.inventoryManager,
-  );
+  setupRoutes(app, deps.fleet, deps.coordinator, deps.exclusionZones);
 
   // Create HTTP server for both Express and WebSocket
   const server = http.createServer(app);
 
   // WebSocket
-  new WebSocketManager(
-    server,
-    deps.eventBus,
-    deps.miningEngine,
-    deps.pingMonitor,
-    deps.statistics,
-    deps.playerList,
-    deps.chatMonitor,
-    deps.inventoryManager,
-  );
+  new WebSocketManager(server, deps.eventBus, deps.fleet, deps.coordinator);
 
   server.listen(deps.config.viewerPort, () => {
     log.success(`Control panel at http://localhost:${deps.config.viewerPort}`);
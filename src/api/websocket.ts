@@ -1,17 +1,18 @@
 import { WebSocketServer, WebSocket } from 'ws';
 import type { Server } from 'http';
 import type { BotEventBus } from '../core/event-bus.js';
-import type { MiningEngine } from '../mining/mining-engine.js';
-import type { PingMonitor } from '../network/ping-monitor.js';
-import type { Statistics } from '../features/statistics.js';
-import type { PlayerList } from '../features/player-list.js';
-import type { ChatMonitor } from '../features/chat-monitor.js';
-import type { InventoryManager } from '../inventory/inventory-manager.js';
+import type { BotFleet } from '../core/bot-fleet.js';
+import type { BotInstance } from '../core/bot-instance.js';
+import type { MiningCoordinator } from '../mining/mining-coordinator.js';
 import { getLogHistory } from '../core/logger.js';
 import { createLogger } from '../core/logger.js';
 
 const log = createLogger('WS');
 
+/**
+ * Pushes updates to the panel. Messages about one bot carry its id in `bot`;
+ * logs and fleet-wide updates have none.
+ */
 export class WebSocketManager {
   private wss: WebSocketServer;
   private clients: Set<WebSocket> = new Set();
@@ -19,12 +20,8 @@ export class WebSocketManager {
   constructor(
     server: Server,
     private eventBus: BotEventBus,
-    private miningEngine: MiningEngine,
-    private pingMonitor: PingMonitor,
-    private statistics: Statistics,
-    private playerList: PlayerList,
-    private chatMonitor: ChatMonitor,
-    private inventoryManager: InventoryManager,
+    private fleet: BotFleet,
+    private coordinator: MiningCoordinator,
   ) {
     this.wss = new WebSocketServer({ server });
 
@@ -32,16 +29,16 @@ export class WebSocketManager {
       this.clients.add(ws);
       log.debug(`Client connected (${this.clients.size} total)`);
 
-      // Send initial state snapshot
+      // Send initial state snapshot: fleet-wide data plus the primary bot
+      const primary = this.fleet.primary();
       this.send(ws, {
         type: 'init',
+        bot: primary?.id,
         data: {
-          state: this.miningEngine.getState(),
-          ping: this.pingMonitor.getData(),
-          stats: this.statistics.getStats(),
-          players: this.playerList.getPlayers(),
-          chat: this.chatMonitor.getHistory().slice(-50),
-          inventory: this.inventoryManager.getHotbar(),
+          ...(primary ? { ...this.snapshot(primary), chat: primary.chatMonitor.getHistory().slice(-50) } : {}),
+          ping: primary?.pingMonitor.getData(),
+          bots: this.fleet.summaries(),
+          coordinator: this.coordinator.getStatus(),
           logs: getLogHistory().slice(-100),
         },
       });
@@ -53,80 +50,120 @@ export class WebSocketManager {
     });
 
     this.subscribeToEvents();
+    this.fleet.onInstance(instance => this.subscribeToBot(instance));
     this.startPeriodicUpdates();
   }
 
   private subscribeToEvents(): void {
-    this.eventBus.on('mining:progress', (mined, total) => {
-      this.broadcast({ type: 'mining:progress', data: { mined, total } });
+    this.eventBus.on('coordinator:updated', (status) => {
+      this.broadcast({ type: 'coordinator', data: status });
     });
 
-    this.eventBus.on('mining:started', () => {
-      this.broadcastState();
+    this.eventBus.on('log:entry', (entry) => {
+      this.broadcast({ type: 'log', data: entry });
     });
+  }
 
-    this.eventBus.on('mining:paused', (reason) => {
-      this.broadcast({ type: 'mining:paused', data: { reason } });
-      this.broadcastState();
+  /**
+   * Forward one bot's events. A replaced instance's bus is cleared on
+   * dispose, which drops these listeners with it.
+   */
+  private subscribeToBot(instance: BotInstance): void {
+    const bus = instance.eventBus;
+    const bot = instance.id;
+
+    bus.on('mining:progress', (mined, total) => {
+      this.broadcast({ type: 'mining:progress', bot, data: { mined, total } });
     });
 
-    this.eventBus.on('mining:resumed', () => {
-      this.broadcastState();
+    bus.on('mining:started', () => {
+      this.broadcastState(instance);
     });
 
-    this.eventBus.on('mining:finished', () => {
-      this.broadcastState();
+    bus.on('mining:state-changed', (from, to, activity) => {
+      this.broadcast({ type: 'mining:state-changed', bot, data: { from, to, activity } });
+      this.broadcastState(instance);
     });
 
-    this.eventBus.on('mining:error', (error) => {
-      this.broadcast({ type: 'mining:error', data: { error } });
-      this.broadcastState();
+    bus.on('mining:paused', (reason) => {
+      this.broadcast({ type: 'mining:paused', bot, data: { reason } });
+      this.broadcastState(instance);
     });
 
-    this.eventBus.on('ping:update', (data) => {
-      this.broadcast({ type: 'ping', data });
+    bus.on('mining:resumed', () => {
+      this.broadcastState(instance);
     });
 
-    this.eventBus.on('bot:health-changed', (health, food) => {
-      this.broadcast({ type: 'health', data: { health, food } });
+    bus.on('mining:finished', () => {
+      this.broadcastState(instance);
     });
 
-    this.eventBus.on('chat:message', (username, message) => {
-      this.broadcast({ type: 'chat', data: { username, message, timestamp: Date.now(), isSystem: false } });
+    bus.on('mining:error', (error) => {
+      this.broadcast({ type: 'mining:error', bot, data: { error } });
+      this.broadcastState(instance);
     });
 
-    this.eventBus.on('chat:system', (message) => {
-      this.broadcast({ type: 'chat', data: { username: 'SYSTEM', message, timestamp: Date.now(), isSystem: true } });
+    bus.on('jobs:updated', (jobs) => {
+      this.broadcast({ type: 'jobs', bot, data: jobs });
     });
 
-    this.eventBus.on('safety:stuck', (level, reason) => {
-      this.broadcast({ type: 'safety:stuck', data: { level, reason } });
+    bus.on('mining:block-failed', (failure) => {
+      this.broadcast({ type: 'mining:block-failed', bot, data: failure });
     });
 
-    this.eventBus.on('log:entry', (entry) => {
-      this.broadcast({ type: 'log', data: entry });
+    bus.on('mining:verified', (summary) => {
+      this.broadcast({ type: 'mining:verified', bot, data: summary });
+    });
+
+    bus.on('ping:update', (data) => {
+      this.broadcast({ type: 'ping', bot, data });
+    });
+
+    bus.on('bot:health-changed', (health, food) => {
+      this.broadcast({ type: 'health', bot, data: { health, food } });
+    });
+
+    bus.on('chat:message', (username, message) => {
+      this.broadcast({ type: 'chat', bot, data: { username, message, timestamp: Date.now(), isSystem: false } });
+    });
+
+    bus.on('chat:system', (message) => {
+      this.broadcast({ type: 'chat', bot, data: { username: 'SYSTEM', message, timestamp: Date.now(), isSystem: true } });
+    });
+
+    bus.on('safety:stuck', (level, reason) => {
+      this.broadcast({ type: 'safety:stuck', bot, data: { level, reason } });
+    });
+
+    bus.on('inventory:changed', () => {
+      this.broadcast({ type: 'inventory', bot, data: instance.inventoryManager.getInventory() });
     });
   }
 
   private startPeriodicUpdates(): void {
-    // Send full state + stats + inventory every 2 seconds
+    // Send full state + stats + inventory of every bot every 2 seconds
     setInterval(() => {
       if (this.clients.size === 0) return;
 
-      this.broadcast({
-        type: 'periodic',
-        data: {
-          state: this.miningEngine.getState(),
-          stats: this.statistics.getStats(),
-          players: this.playerList.getPlayers(),
-          inventory: this.inventoryManager.getHotbar(),
-        },
-      });
+      this.broadcast({ type: 'bots', data: this.fleet.summaries() });
+      for (const instance of this.fleet.list()) {
+        this.broadcast({ type: 'periodic', bot: instance.id, data: this.snapshot(instance) });
+      }
     }, 2000);
   }
 
-  private broadcastState(): void {
-    this.broadcast({ type: 'state', data: this.miningEngine.getState() });
+  private snapshot(instance: BotInstance): object {
+    return {
+      state: instance.miningEngine.getState(),
+      jobs: instance.jobQueue.list(),
+      stats: instance.statistics.getStats(),
+      players: instance.playerList.getPlayers(),
+      inventory: instance.inventoryManager.getInventory(),
+    };
+  }
+
+  private broadcastState(instance: BotInstance): void {
+    this.broadcast({ type: 'state', bot: instance.id, data: instance.miningEngine.getState() });
   }
 
   private broadcast(msg: object): void {
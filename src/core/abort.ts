@@ -0,0 +1,63 @@
+/**
+ * Helpers for cancelling long-running bot operations with an AbortSignal.
+ */
+
+/**
+ * Thrown by an operation whose signal was aborted before it finished.
+ */
+export class OperationAbortedError extends Error {
+  constructor(message = 'Operation cancelled') {
+    super(message);
+    this.name = 'OperationAbortedError';
+  }
+}
+
+export function isAborted(err: unknown): err is OperationAbortedError {
+  return err instanceof OperationAbortedError;
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw new OperationAbortedError();
+}
+
+/**
+ * Settle with `promise`, or reject with OperationAbortedError as soon as
+ * `signal` aborts. `onAbort` stops the underlying work (pathfinder, digging).
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal, onAbort?: () => void): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) {
+    onAbort?.();
+    promise.catch(() => {});
+    return Promise.reject(new OperationAbortedError());
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const cancel = () => {
+      onAbort?.();
+      reject(new OperationAbortedError());
+    };
+    signal.addEventListener('abort', cancel, { once: true });
+    promise.then(
+      (value) => { signal.removeEventListener('abort', cancel); resolve(value); },
+      (err) => { signal.removeEventListener('abort', cancel); reject(err); },
+    );
+  });
+}
+
+/**
+ * Wait `ms`, waking early when `signal` aborts. Never rejects: callers
+ * re-check their own state afterwards.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
@@ -0,0 +1,83 @@
+import type { AppConfig } from './config.js';
+import type { BotSummary } from '../types.js';
+import type { ExclusionZones } from '../safety/exclusion-zones.js';
+import { BotInstance } from './bot-instance.js';
+import { createLogger, withBotLogs } from './logger.js';
+
+const log = createLogger('Fleet');
+
+// Servers throttle several logins from one address in quick succession
+const LOGIN_STAGGER_MS = 5000;
+
+/**
+ * The bots running in this process, keyed by username. The first configured
+ * account is the primary bot, which the unscoped `/api/...` routes act on.
+ */
+export class BotFleet {
+  private instances = new Map<string, BotInstance>();
+  private listeners: ((instance: BotInstance) => void)[] = [];
+
+  constructor(
+    private config: AppConfig,
+    private exclusionZones: ExclusionZones,
+  ) {}
+
+  start(): void {
+    this.config.usernames.forEach((username, i) => {
+      setTimeout(() => this.spawn(username), i * LOGIN_STAGGER_MS);
+    });
+  }
+
+  get(id: string): BotInstance | null {
+    return this.instances.get(id) ?? null;
+  }
+
+  list(): BotInstance[] {
+    return [...this.instances.values()];
+  }
+
+  primary(): BotInstance | null {
+    return this.instances.get(this.config.usernames[0]) ?? null;
+  }
+
+  summaries(): BotSummary[] {
+    return this.list().map(i => i.summary());
+  }
+
+  /**
+   * Call `listener` for every instance, now and whenever one is created
+   * or replaced after a reconnect.
+   */
+  onInstance(listener: (instance: BotInstance) => void): void {
+    this.listeners.push(listener);
+    for (const instance of this.instances.values()) listener(instance);
+  }
+
+  // ─── Private ───
+
+  private spawn(username: string): void {
+    const multi = this.config.usernames.length > 1;
+    // Everything the bot's modules do from here on logs under its name
+    const instance = withBotLogs(username, () => new BotInstance(
+      username,
+      { ...this.config, username },
+      this.exclusionZones,
+      () => this.reconnect(username),
+      // A single bot keeps the original state files
+      multi ? username : undefined,
+    ));
+    this.instances.set(username, instance);
+    for (const listener of this.listeners) listener(instance);
+  }
+
+  private reconnect(username: string): void {
+    if (this.config.usernames.length === 1) {
+      log.info('Auto-reconnect: restarting process...');
+      process.exit(1); // launcher.js will restart
+    }
+
+    log.info(`Auto-reconnect: reconnecting ${username}...`);
+    this.instances.get(username)?.dispose();
+    this.spawn(username);
+  }
+}
@@ -0,0 +1,292 @@
+import type { Bot } from 'mineflayer';
+import type { AppConfig } from './config.js';
+import type { BotSummary } from '../types.js';
+import { BotEventBus } from './event-bus.js';
+import { createLogger } from './logger.js';
+import { createBot } from './bot.js';
+
+import { PingMonitor } from '../network/ping-monitor.js';
+import { AdaptiveTimings } from '../network/adaptive-timings.js';
+import { PositionConfirmer } from '../network/position-confirmer.js';
+
+import { MiningEngine } from '../mining/mining-engine.js';
+import { Navigator } from '../mining/navigator.js';
+import { StateManager } from '../mining/state-manager.js';
+import { JobQueue } from '../mining/job-queue.js';
+import { AreaScanner } from '../mining/area-scanner.js';
+import { JobSimulator } from '../mining/job-simulator.js';
+import { GravityHandler } from '../mining/gravity-handler.js';
+import { ScaffoldTracker } from '../mining/scaffold-tracker.js';
+
+import { ToolSelector } from '../inventory/tool-selector.js';
+import { ToolCrafter } from '../inventory/tool-crafter.js';
+import { Restocker } from '../inventory/restocker.js';
+import { InventoryManager } from '../inventory/inventory-manager.js';
+import { FoodManager } from '../inventory/food-manager.js';
+
+import { AntiStuck } from '../safety/anti-stuck.js';
+import { CreeperGuard } from '../safety/creeper-guard.js';
+import { HealthMonitor } from '../safety/health-monitor.js';
+import { LiquidGuard } from '../safety/liquid-guard.js';
+import type { ExclusionZones } from '../safety/exclusion-zones.js';
+import { DigBoundary } from '../safety/dig-boundary.js';
+import { TorchPlacer } from '../safety/torch-placer.js';
+
+import { ChatMonitor } from '../features/chat-monitor.js';
+import { PlayerList } from '../features/player-list.js';
+import { Statistics } from '../features/statistics.js';
+import { AutoReconnect } from '../features/auto-reconnect.js';
+
+const log = createLogger('Main');
+
+const SLEEP_PATTERNS = [
+  /^(\S+)\s+fell asleep/i,
+  /^(\S+)\s+is now sleeping/i,
+  /^(\S+)\s+лёг спать/i,
+  /^(\S+)\s+лег спать/i,
+  /^(\S+)\s+заснул/i,
+];
+
+/**
+ * One bot and its full module stack, with its own event bus and state files.
+ * A reconnect throws the instance away and builds a new one.
+ */
+export class BotInstance {
+  readonly eventBus = new BotEventBus();
+  readonly bot: Bot;
+
+  // ─── Network Layer ───
+  readonly pingMonitor: PingMonitor;
+  readonly timings: AdaptiveTimings;
+  readonly posConfirmer: PositionConfirmer;
+
+  // ─── Mining Layer ───
+  readonly navigator: Navigator;
+  readonly stateManager: StateManager;
+  readonly toolSelector: ToolSelector;
+  readonly toolCrafter: ToolCrafter;
+  readonly restocker: Restocker;
+  readonly inventoryManager: InventoryManager;
+  readonly foodManager: FoodManager;
+  readonly antiStuck: AntiStuck;
+  readonly digBoundary: DigBoundary;
+  readonly torchPlacer: TorchPlacer;
+  readonly areaScanner: AreaScanner;
+  readonly jobSimulator: JobSimulator;
+  readonly liquidGuard: LiquidGuard;
+  readonly gravity: GravityHandler;
+  readonly scaffold: ScaffoldTracker;
+  readonly miningEngine: MiningEngine;
+  readonly jobQueue: JobQueue;
+
+  // ─── Safety Layer ───
+  readonly creeperGuard: CreeperGuard;
+  readonly healthMonitor: HealthMonitor;
+
+  // ─── Features ───
+  readonly chatMonitor: ChatMonitor;
+  readonly playerList: PlayerList;
+  readonly statistics: Statistics;
+  readonly autoReconnect: AutoReconnect;
+
+  private ready = false;
+  private sleepDisconnectPending = false;
+  private resumeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * `stateKey` names this bot's state files; omit it to use the single-bot files.
+   */
+  constructor(
+    readonly id: string,
+    config: AppConfig,
+    exclusionZones: ExclusionZones,
+    reconnect: () => void,
+    stateKey?: string,
+  ) {
+    log.info(`Connecting to ${config.host}:${config.port} as ${config.username}...`);
+    const bot = createBot(config);
+    const eventBus = this.eventBus;
+    this.bot = bot;
+
+    this.pingMonitor = new PingMonitor(bot, eventBus);
+    this.timings = new AdaptiveTimings(this.pingMonitor);
+    this.posConfirmer = new PositionConfirmer(bot, this.pingMonitor);
+
+    this.navigator = new Navigator(bot, this.timings, config);
+    this.stateManager = new StateManager(stateKey);
+    this.toolSelector = new ToolSelector(bot, eventBus, config);
+    this.inventoryManager = new InventoryManager(bot, eventBus, config);
+    this.foodManager = new FoodManager(bot, eventBus);
+    this.restocker = new Restocker(bot, eventBus, config, this.inventoryManager, this.foodManager, this.toolSelector);
+    this.toolCrafter = new ToolCrafter(bot, eventBus, config, this.inventoryManager, this.navigator);
+    this.antiStuck = new AntiStuck(bot, this.timings, eventBus, this.toolSelector);
+    this.digBoundary = new DigBoundary(config);
+    this.torchPlacer = new TorchPlacer(bot, eventBus, config, exclusionZones);
+    this.areaScanner = new AreaScanner(bot, this.toolSelector, exclusionZones);
+    this.jobSimulator = new JobSimulator(bot, this.toolSelector, exclusionZones, this.inventoryManager, this.timings);
+    this.liquidGuard = new LiquidGuard(bot, eventBus, config);
+    this.gravity = new GravityHandler(bot, this.timings);
+    this.scaffold = new ScaffoldTracker(bot, config);
+    this.navigator.setAntiStuck(this.antiStuck);
+    this.navigator.setExclusionZones(exclusionZones);
+    this.antiStuck.setExclusionZones(exclusionZones);
+    this.navigator.setDigBoundary(this.digBoundary);
+    this.antiStuck.setDigBoundary(this.digBoundary);
+
+    this.miningEngine = new MiningEngine({
+      bot,
+      eventBus,
+      navigator: this.navigator,
+      stateManager: this.stateManager,
+      areaScanner: this.areaScanner,
+      gravity: this.gravity,
+      scaffold: this.scaffold,
+      toolSelector: this.toolSelector,
+      toolCrafter: this.toolCrafter,
+      restocker: this.restocker,
+      inventoryManager: this.inventoryManager,
+      foodManager: this.foodManager,
+      antiStuck: this.antiStuck,
+      liquidGuard: this.liquidGuard,
+      exclusionZones,
+      digBoundary: this.digBoundary,
+      torchPlacer: this.torchPlacer,
+      timings: this.timings,
+      posConfirmer: this.posConfirmer,
+      pingMonitor: this.pingMonitor,
+      config,
+    });
+
+    this.jobQueue = new JobQueue(this.miningEngine, this.stateManager, eventBus);
+
+    this.creeperGuard = new CreeperGuard(bot, eventBus, config);
+    this.healthMonitor = new HealthMonitor(bot, eventBus, config, this.foodManager);
+
+    this.chatMonitor = new ChatMonitor(bot, eventBus);
+    this.playerList = new PlayerList(bot);
+    this.statistics = new Statistics(eventBus);
+    this.autoReconnect = new AutoReconnect(eventBus, reconnect);
+
+    this.setupBoot();
+    this.setupSleepDetection();
+  }
+
+  /**
+   * Spawned and past the boot-time resume, so it can take new work.
+   */
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  summary(): BotSummary {
+    const state = this.miningEngine.getState();
+    return {
+      id: this.id,
+      ready: this.ready,
+      status: state.status,
+      minedBlocks: state.minedBlocks,
+      totalBlocks: state.totalBlocks,
+    };
+  }
+
+  /**
+   * Shut the stack down after the bot disconnected. Saved progress is kept.
+   */
+  dispose(): void {
+    this.ready = false;
+    if (this.resumeTimer) clearTimeout(this.resumeTimer);
+    this.miningEngine.halt();
+    this.autoReconnect.disable();
+    this.pingMonitor.stop();
+    this.creeperGuard.disable();
+    this.healthMonitor.disable();
+    this.eventBus.removeAllListeners();
+  }
+
+  // ─── Boot Sequence ───
+
+  private setupBoot(): void {
+    this.bot.once('spawn', () => {
+      log.success(`${this.id} spawned! Initializing systems...`);
+
+      this.pingMonitor.start();
+      this.creeperGuard.enable();
+      this.healthMonitor.enable();
+      this.chatMonitor.enable();
+      this.autoReconnect.enable();
+
+      this.eventBus.emit('bot:spawned');
+
+      // Wait for world to load before resuming mining
+      this.resumeTimer = setTimeout(async () => {
+        this.resumeTimer = null;
+        this.autoReconnect.resetAttempts();
+        // Set first: a resumed run marks the engine busy before the first await
+        this.ready = true;
+        await this.jobQueue.resumeIfNeeded();
+      }, 5000);
+    });
+
+    this.bot.on('end', (reason) => {
+      this.ready = false;
+      this.sleepDisconnectPending = false;
+      this.pingMonitor.stop();
+      this.creeperGuard.disable();
+      this.healthMonitor.disable();
+      this.eventBus.emit('bot:disconnected', reason || 'unknown');
+    });
+  }
+
+  private setupSleepDetection(): void {
+    const bot = this.bot;
+
+    // Detect sleep via entity metadata (works only in loaded chunks)
+    bot.on('entitySleep', (entity) => {
+      if (entity.type !== 'player') return;
+      if (entity.username === bot.username) return;
+      this.handleSleepDisconnect(entity.username ?? 'Player');
+    });
+
+    // Detect sleep via chat messages (works regardless of distance)
+    // Vanilla Minecraft sends: "chat.sleep" translation key → "<player> fell asleep"
+    // Also catches common sleep plugin messages
+    bot.on('message', (jsonMsg, position) => {
+      if (this.sleepDisconnectPending) return;
+      // Only check system/game info messages, not player chat
+      if (position === 'chat') return;
+
+      const json = jsonMsg.json as any;
+
+      // Vanilla: translation key "chat.type.sleep" or similar
+      if (json?.translate?.includes('sleep')) {
+        const who = json.with?.[0]?.text ?? json.with?.[0] ?? 'Player';
+        if (who !== bot.username) {
+          this.handleSleepDisconnect(String(who));
+          return;
+        }
+      }
+
+      // Fallback: check plaintext for common sleep patterns
+      const text = jsonMsg.toString();
+      if (!text) return;
+
+      for (const pattern of SLEEP_PATTERNS) {
+        const match = text.match(pattern);
+        if (match && match[1] !== bot.username) {
+          this.handleSleepDisconnect(match[1]);
+          return;
+        }
+      }
+    });
+  }
+
+  private handleSleepDisconnect(who: string): void {
+    if (this.sleepDisconnectPending) return;
+    this.sleepDisconnectPending = true;
+    log.warn(`${who} went to sleep — disconnecting ${this.id} for 10s`);
+    const { status } = this.miningEngine.getState();
+    if (status === 'mining' || status === 'filling') this.miningEngine.pause();
+    this.autoReconnect.setNextDelay(10_000);
+    this.bot.quit();
+  }
+}
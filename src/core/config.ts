@@ -4,12 +4,16 @@ export interface AppConfig {
   host: string;
   port: number;
   username: string;
+  /** Accounts to run in this process; the first is the primary bot */
+  usernames: string[];
   version: string;
   viewerPort: number;
 
   baseLocation: { x: number; y: number | null; z: number } | null;
   bedLocation: { x: number; y: number; z: number } | null;
   chestLocation: { x: number; y: number; z: number } | null;
+  /** Chest holding crafting materials and restock items */
+  supplyChestLocation: { x: number; y: number; z: number } | null;
 
   autoPausePingMs: number;
   lowHealthThreshold: number;
@@ -17,6 +21,35 @@ export interface AppConfig {
   foodThreshold: number;
   creeperEvadeDistance: number;
   creeperDisconnectDistance: number;
+
+  /** What to do with a target that borders water or lava */
+  liquidAction: 'seal' | 'skip';
+  /** Cheap blocks used to seal liquids and as pathfinder scaffolding */
+  fillerBlocks: string[];
+  /** Filler blocks kept back when depositing to a chest */
+  fillerReserve: number;
+
+  /** Only dig inside the job area and its access corridor */
+  digBoundary: boolean;
+  /** Radius of the corridor from the bot's start position to the area */
+  accessCorridorWidth: number;
+
+  /** `grid`: every torchSpacing blocks; `light`: wherever it is darker than torchLightLevel */
+  torchMode: 'off' | 'grid' | 'light';
+  torchSpacing: number;
+  torchLightLevel: number;
+  /** Warn when this many torches or fewer are left */
+  torchLowThreshold: number;
+
+  /** Tools with this many uses left or fewer are never equipped */
+  toolDurabilityFloor: number;
+  /** Warn when the tool in use has this many uses left or fewer */
+  toolDurabilityWarn: number;
+  /** Craft a stone or iron pickaxe when no usable one is left */
+  autoCraftTools: boolean;
+
+  /** Target count per item, topped up from the supply chest when low */
+  restockTable: Record<string, number>;
 }
 
 function parseCoords(prefix: string): { x: number; y: number | null; z: number } | null {
@@ -27,6 +60,46 @@ function parseCoords(prefix: string): { x: number; y: number | null; z: number }
   return { x: Number(x), y: y ? Number(y) : null, z: Number(z) };
 }
 
+function parseList(value: string | undefined, fallback: string[]): string[] {
+  const items = value?.split(',').map(s => s.trim().toLowerCase()).filter(Boolean);
+  return items && items.length > 0 ? items : fallback;
+}
+
+/**
+ * BOT_USERNAMES (comma-separated, case kept) for several bots, else BOT_USERNAME.
+ */
+function parseUsernames(): string[] {
+  const names = process.env.BOT_USERNAMES?.split(',').map(s => s.trim()).filter(Boolean) ?? [];
+  return names.length > 0 ? [...new Set(names)] : [process.env.BOT_USERNAME || 'LyarisBot'];
+}
+
+/**
+ * `name=count` pairs, comma-separated. Bad entries are skipped.
+ */
+function parseRestock(value: string | undefined, fallback: Record<string, number>): Record<string, number> {
+  if (!value) return fallback;
+  const table: Record<string, number> = {};
+  for (const entry of value.split(',')) {
+    const [name, count] = entry.split('=').map(s => s.trim().toLowerCase());
+    if (name && Number(count) > 0) table[name] = Math.floor(Number(count));
+  }
+  return table;
+}
+
+/**
+ * For settings where 0 is meaningful: only unset or non-numeric values fall back.
+ */
+function parseCount(value: string | undefined, fallback: number): number {
+  if (value === undefined || value.trim() === '') return fallback;
+  const n = Number(value);
+  return Number.isNaN(n) ? fallback : n;
+}
+
+/** Opt-in: unset or unknown values place no torches */
+function parseTorchMode(value: string | undefined): AppConfig['torchMode'] {
+  return value === 'grid' || value === 'light' ? value : 'off';
+}
+
 function parseFullCoords(prefix: string): { x: number; y: number; z: number } | null {
   const x = process.env[`${prefix}_X`];
   const y = process.env[`${prefix}_Y`];
@@ -40,12 +113,14 @@ export function loadConfig(): AppConfig {
     host: process.env.BOT_HOST || 'localhost',
     port: Number(process.env.BOT_PORT) || 25565,
     username: process.env.BOT_USERNAME || 'LyarisBot',
+    usernames: parseUsernames(),
     version: process.env.MC_VERSION || '1.21.1',
     viewerPort: Number(process.env.VIEWER_PORT) || 3007,
 
     baseLocation: parseCoords('BASE'),
     bedLocation: parseFullCoords('BED'),
     chestLocation: parseFullCoords('CHEST'),
+    supplyChestLocation: parseFullCoords('SUPPLY_CHEST'),
 
     autoPausePingMs: Number(process.env.AUTO_PAUSE_PING) || 1000,
     lowHealthThreshold: 6,
@@ -53,5 +128,23 @@ export function loadConfig(): AppConfig {
     foodThreshold: 18,
     creeperEvadeDistance: 5,
     creeperDisconnectDistance: 3,
+
+    liquidAction: process.env.LIQUID_ACTION === 'skip' ? 'skip' : 'seal',
+    fillerBlocks: parseList(process.env.FILLER_BLOCKS, ['cobblestone', 'cobbled_deepslate', 'dirt', 'netherrack']),
+    fillerReserve: parseCount(process.env.FILLER_RESERVE, 64),
+
+    digBoundary: process.env.DIG_BOUNDARY === 'true',
+    accessCorridorWidth: parseCount(process.env.ACCESS_CORRIDOR_WIDTH, 1),
+
+    torchMode: parseTorchMode(process.env.TORCH_MODE),
+    torchSpacing: Number(process.env.TORCH_SPACING) || 8,
+    torchLightLevel: Number(process.env.TORCH_LIGHT_LEVEL) || 7,
+    torchLowThreshold: parseCount(process.env.TORCH_LOW, 16),
+
+    toolDurabilityFloor: parseCount(process.env.TOOL_DURABILITY_FLOOR, 10),
+    toolDurabilityWarn: parseCount(process.env.TOOL_DURABILITY_WARN, 50),
+    autoCraftTools: process.env.AUTO_CRAFT_TOOLS !== 'false',
+
+    restockTable: parseRestock(process.env.RESTOCK, { cooked_beef: 32, torch: 64, cobblestone: 64, stone_pickaxe: 1 }),
   };
 }
@@ -1,6 +1,6 @@
 import { EventEmitter } from 'events';
 import type { Vec3 } from 'vec3';
-import type { NormalizedArea, MiningStats, PingData } from '../types.js';
+import type { AreaScanResult, BlockFailure, CoordinatorStatus, MiningActivity, MiningStatus, NormalizedArea, VerificationSummary, MiningJob, MiningStats, PingData } from '../types.js';
 
 export interface BotEvents {
   // Network
@@ -9,25 +9,52 @@ export interface BotEvents {
   'ping:critical': [ping: number];
 
   // Mining
+  'mining:state-changed': [from: MiningStatus, to: MiningStatus, activity: MiningActivity | null];
   'mining:started': [area: NormalizedArea];
+  'mining:scanned': [scan: AreaScanResult];
   'mining:progress': [mined: number, total: number];
   'mining:paused': [reason: string];
   'mining:resumed': [];
   'mining:finished': [];
+  /** By the user; a halt on disconnect doesn't count */
+  'mining:stopped': [];
   'mining:error': [error: string];
   'mining:block-mined': [pos: Vec3, blockName: string];
+  'mining:block-placed': [pos: Vec3, blockName: string];
+  'mining:block-failed': [failure: BlockFailure];
+  'mining:verified': [summary: VerificationSummary];
+  'mining:gravity': [pos: Vec3, blocks: number];
+  'mining:vein': [origin: Vec3, oreName: string, size: number];
+
+  // Job queue
+  'jobs:updated': [jobs: MiningJob[]];
+  'jobs:started': [job: MiningJob];
+  'jobs:finished': [job: MiningJob];
 
   // Safety
   'safety:creeper-nearby': [distance: number];
   'safety:taking-damage': [health: number];
   'safety:stuck': [level: number, reason: string];
   'safety:unstuck': [];
+  'safety:liquid-hazard': [pos: Vec3, liquid: string, action: 'sealed' | 'skipped'];
 
   // Inventory
   'inventory:full': [];
   'inventory:deposited': [];
   'inventory:hungry': [];
   'inventory:eating': [food: string];
+  'inventory:torches-low': [count: number];
+  'inventory:tool-low': [tool: string, durability: number];
+  'inventory:restocked': [taken: Record<string, number>];
+  'inventory:changed': [];
+
+  // Crafting
+  'crafting:started': [item: string];
+  'crafting:finished': [item: string];
+  'crafting:failed': [item: string, reason: string];
+
+  // Coordinator (process-wide bus)
+  'coordinator:updated': [status: CoordinatorStatus];
 
   // Bot state
   'bot:spawned': [];
@@ -1,3 +1,4 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import type { BotEventBus } from './event-bus.js';
 
 const COLORS = {
@@ -28,6 +29,8 @@ export interface LogEntry {
   level: LogLevel;
   module: string;
   message: string;
+  /** Bot whose work logged it; unset for process-wide modules */
+  bot?: string;
 }
 
 const logHistory: LogEntry[] = [];
@@ -35,10 +38,21 @@ const MAX_HISTORY = 500;
 
 let eventBus: BotEventBus | null = null;
 
+// Modules log through shared loggers; the bot comes from the async context
+const botContext = new AsyncLocalStorage<string>();
+
 export function setLogEventBus(bus: BotEventBus): void {
   eventBus = bus;
 }
 
+/**
+ * Run `fn` with its log entries, and those of everything it starts
+ * (listeners, timers, promises), tagged with `botId`.
+ */
+export function withBotLogs<T>(botId: string, fn: () => T): T {
+  return botContext.run(botId, fn);
+}
+
 function formatTime(): string {
   const d = new Date();
   return `${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}:${String(d.getSeconds()).padStart(2, '0')}`;
@@ -47,14 +61,18 @@ function formatTime(): string {
 function log(level: LogLevel, module: string, message: string): void {
   const style = LEVEL_STYLES[level];
   const time = formatTime();
+  const bot = botContext.getStore();
 
-  const formatted = `${COLORS.gray}${time}${COLORS.reset} ${style.color}${COLORS.bold}[${style.label}]${COLORS.reset} ${COLORS.cyan}${module}${COLORS.reset} ${message}`;
+  const formatted = `${COLORS.gray}${time}${COLORS.reset} ${style.color}${COLORS.bold}[${style.label}]${COLORS.reset} ` +
+    (bot ? `${COLORS.magenta}${bot}${COLORS.reset} ` : '') +
+    `${COLORS.cyan}${module}${COLORS.reset} ${message}`;
 
   if (level === 'error') console.error(formatted);
   else if (level === 'warn') console.warn(formatted);
   else console.log(formatted);
 
   const entry: LogEntry = { timestamp: Date.now(), level, module, message };
+  if (bot) entry.bot = bot;
   logHistory.push(entry);
   if (logHistory.length > MAX_HISTORY) logHistory.shift();
 
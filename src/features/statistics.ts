@@ -6,36 +6,37 @@ export class Statistics {
   private totalBlocksMined = 0;
   private blockTimestamps: number[] = [];
   private totalBlocks = 0;
+  private runMinedBlocks = 0;
 
   constructor(private eventBus: BotEventBus) {
     this.eventBus.on('mining:block-mined', () => {
       this.totalBlocksMined++;
-      const now = Date.now();
-      this.blockTimestamps.push(now);
-      // Keep only last 60 seconds for rate calculation
-      const cutoff = now - 60000;
-      this.blockTimestamps = this.blockTimestamps.filter(t => t > cutoff);
+      this.recordBlock();
     });
 
-    this.eventBus.on('mining:started', (area) => {
-      const dx = area.max.x - area.min.x + 1;
-      const dy = area.max.y - area.min.y + 1;
-      const dz = area.max.z - area.min.z + 1;
-      this.totalBlocks = dx * dy * dz;
+    // Fill runs report placed blocks through the same progress and rate
+    this.eventBus.on('mining:block-placed', () => this.recordBlock());
+
+    // The engine's totals come from its scan phase and only include blocks
+    // that will really be dug, so they give a truthful remaining count
+    this.eventBus.on('mining:progress', (mined, total) => {
+      this.runMinedBlocks = mined;
+      this.totalBlocks = total;
     });
 
     this.eventBus.on('mining:finished', () => {
       this.totalBlocks = 0;
+      this.runMinedBlocks = 0;
     });
   }
 
   getStats(): MiningStats {
     const blocksPerMinute = this.blockTimestamps.length;
     const remaining = this.totalBlocks > 0
-      ? this.totalBlocks - this.totalBlocksMined
-      : 0;
+      ? Math.max(0, this.totalBlocks - this.runMinedBlocks)
+      : null;
 
-    const estimatedTimeRemaining = blocksPerMinute > 0 && remaining > 0
+    const estimatedTimeRemaining = blocksPerMinute > 0 && remaining
       ? Math.round((remaining / blocksPerMinute) * 60000)
       : null;
 
@@ -43,14 +44,24 @@ export class Statistics {
       sessionDuration: Date.now() - this.sessionStart,
       totalBlocksMined: this.totalBlocksMined,
       blocksPerMinute,
+      remainingBlocks: remaining,
       estimatedTimeRemaining,
     };
   }
 
+  private recordBlock(): void {
+    const now = Date.now();
+    this.blockTimestamps.push(now);
+    // Keep only last 60 seconds for rate calculation
+    const cutoff = now - 60000;
+    this.blockTimestamps = this.blockTimestamps.filter(t => t > cutoff);
+  }
+
   resetSession(): void {
     this.sessionStart = Date.now();
     this.totalBlocksMined = 0;
     this.blockTimestamps = [];
     this.totalBlocks = 0;
+    this.runMinedBlocks = 0;
   }
 }
@@ -1,5 +1,6 @@
 import type { Bot } from 'mineflayer';
 import type { BotEventBus } from '../core/event-bus.js';
+import { abortable, isAborted } from '../core/abort.js';
 import { createLogger } from '../core/logger.js';
 
 const log = createLogger('Food');
@@ -19,9 +20,10 @@ export class FoodManager {
   ) {}
 
   /**
-   * Eat food if hunger is below threshold.
+   * Eat food if hunger is below threshold. Rejects with OperationAbortedError
+   * once `signal` aborts, putting the food away.
    */
-  async eatIfNeeded(threshold = 18): Promise<void> {
+  async eatIfNeeded(threshold = 18, signal?: AbortSignal): Promise<void> {
     if (this.bot.food >= threshold) return;
 
     const items = this.bot.inventory.items();
@@ -36,10 +38,11 @@ export class FoodManager {
     this.eventBus.emit('inventory:eating', food.name);
 
     try {
-      await this.bot.equip(food, 'hand');
-      await this.bot.consume();
+      await abortable(this.bot.equip(food, 'hand'), signal);
+      await abortable(this.bot.consume(), signal, () => this.bot.deactivateItem());
       log.success('Finished eating');
     } catch (err: any) {
+      if (isAborted(err)) throw err;
       log.error(`Failed to eat: ${err.message}`);
     }
   }
@@ -1,11 +1,13 @@
-import type { Bot } from 'mineflayer';
+import type { Bot, EquipmentDestination } from 'mineflayer';
 import type { Block } from 'prismarine-block';
+import type { Item } from 'prismarine-item';
 import { Vec3 } from 'vec3';
 import { goals } from 'mineflayer-pathfinder';
-import type { NormalizedArea } from '../types.js';
+import type { InventoryItem, InventorySnapshot, NormalizedArea } from '../types.js';
 import type { BotEventBus } from '../core/event-bus.js';
 import type { AppConfig } from '../core/config.js';
 import { FoodManager } from './food-manager.js';
+import { abortable, isAborted, throwIfAborted } from '../core/abort.js';
 import { createLogger } from '../core/logger.js';
 
 const { GoalNear } = goals;
@@ -13,18 +15,36 @@ const log = createLogger('Inventory');
 
 const TOOL_SUFFIXES = ['_pickaxe', '_axe', '_shovel', '_sword', '_hoe'];
 
+// Window slots of the player inventory
+const ARMOR_SLOTS = { head: 5, torso: 6, legs: 7, feet: 8 } as const;
+const FIRST_SLOT = 5;
+const OFFHAND_SLOT = 45;
+
+const EQUIP_DESTINATIONS: EquipmentDestination[] = ['hand', 'off-hand', 'head', 'torso', 'legs', 'feet'];
+
+// Slot updates come in bursts (a chest trip, a craft); announce one change per burst
+const CHANGE_DEBOUNCE_MS = 250;
+
 function shouldKeepItem(name: string): boolean {
   if (TOOL_SUFFIXES.some(s => name.endsWith(s))) return true;
   if (FoodManager.isFoodItem(name)) return true;
+  // The TorchPlacer needs them for the rest of the job
+  if (name === 'torch') return true;
   return false;
 }
 
 export class InventoryManager {
+  private changeTimer: ReturnType<typeof setTimeout> | null = null;
+
   constructor(
     private bot: Bot,
     private eventBus: BotEventBus,
     private config: AppConfig,
-  ) {}
+  ) {
+    this.bot.inventory.on('updateSlot', () => this.announceChange());
+    // The selected hotbar slot changing doesn't touch any slot
+    this.bot.on('heldItemChanged', () => this.announceChange());
+  }
 
   /**
    * Check if inventory is full (no empty slots in main inventory).
@@ -47,22 +67,319 @@ export class InventoryManager {
 
   /**
    * Deposit items to a chest. Tries multiple strategies to find one.
-   * Returns true if inventory was freed.
+   * Returns true if inventory was freed. Rejects with OperationAbortedError
+   * once `signal` aborts, closing the chest first.
+   */
+  async depositToChest(miningArea?: NormalizedArea | null, signal?: AbortSignal): Promise<boolean> {
+    const chest = await this.openChest(miningArea, signal);
+    if (!chest) return false;
+
+    try {
+      const keep = this.toKeep();
+      for (const item of this.bot.inventory.items()) {
+        throwIfAborted(signal);
+        const count = item.count - (keep.get(item.slot) ?? 0);
+        if (count <= 0) continue;
+
+        try {
+          await chest.deposit(item.type, null, count);
+        } catch {
+          log.warn('Chest full, stopping deposit');
+          break;
+        }
+      }
+      log.success('Items deposited to chest');
+      this.eventBus.emit('inventory:deposited');
+    } finally {
+      chest.close();
+    }
+
+    return !this.isFull();
+  }
+
+  /**
+   * Take up to `count` of an item from a chest, found the same way as for
+   * depositing. Returns how many were taken.
+   */
+  async withdrawFromChest(
+    itemName: string,
+    count: number,
+    miningArea?: NormalizedArea | null,
+    signal?: AbortSignal,
+  ): Promise<number> {
+    const chest = await this.openChest(miningArea, signal);
+    if (!chest) return 0;
+
+    const before = this.countItem(itemName);
+    try {
+      const stored = chest.containerItems()
+        .filter((i: any) => i.name === itemName)
+        .reduce((sum: number, i: any) => sum + i.count, 0);
+      const wanted = Math.min(count, stored);
+      if (wanted === 0) {
+        log.warn(`No ${itemName} in the chest`);
+        return 0;
+      }
+      await chest.withdraw(this.bot.registry.itemsByName[itemName].id, null, wanted);
+    } catch (err: any) {
+      log.warn(`Withdraw stopped: ${err.message}`);
+    } finally {
+      chest.close();
+    }
+
+    const taken = this.countItem(itemName) - before;
+    if (taken > 0) log.success(`Took ${taken} ${itemName} from chest`);
+    return taken;
+  }
+
+  /**
+   * Take items from the supply chest (SUPPLY_CHEST_*), never from the chest
+   * used for depositing. `pick` sees what the chest holds and returns how many
+   * of each item to take. Returns how many of each were taken.
+   */
+  async withdrawFromSupply(
+    pick: (stored: Map<string, number>) => Map<string, number>,
+    miningArea?: NormalizedArea | null,
+    signal?: AbortSignal,
+  ): Promise<Map<string, number>> {
+    const taken = new Map<string, number>();
+    const chest = await this.openChest(miningArea, signal, true);
+    if (!chest) return taken;
+
+    try {
+      const stored = new Map<string, number>();
+      for (const item of chest.containerItems()) {
+        stored.set(item.name, (stored.get(item.name) ?? 0) + item.count);
+      }
+
+      for (const [name, count] of pick(stored)) {
+        const wanted = Math.min(count, stored.get(name) ?? 0);
+        if (wanted <= 0) continue;
+        throwIfAborted(signal);
+        const before = this.countItem(name);
+        try {
+          await chest.withdraw(this.bot.registry.itemsByName[name].id, null, wanted);
+        } catch (err: any) {
+          log.warn(`Withdraw of ${name} stopped: ${err.message}`);
+        }
+        const got = this.countItem(name) - before;
+        if (got > 0) taken.set(name, got);
+      }
+    } finally {
+      chest.close();
+    }
+
+    if (taken.size > 0) {
+      log.success(`Took ${[...taken].map(([name, n]) => `${n} ${name}`).join(', ')} from supply chest`);
+    }
+    return taken;
+  }
+
+  /**
+   * Main inventory slots that are empty or would be emptied by a deposit.
+   */
+  depositCapacity(): number {
+    return 36 - [...this.toKeep().values()].filter(n => n > 0).length;
+  }
+
+  countItem(itemName: string): number {
+    return this.bot.inventory.items()
+      .filter(i => i.name === itemName)
+      .reduce((sum, i) => sum + i.count, 0);
+  }
+
+  /**
+   * The whole player inventory: main slots, armor and offhand.
+   */
+  getInventory(): InventorySnapshot {
+    const slots = this.bot.inventory.slots;
+    const main: (InventoryItem | null)[] = [];
+    for (let i = 9; i < 45; i++) main.push(this.describe(slots[i]));
+
+    return {
+      main,
+      armor: {
+        head: this.describe(slots[ARMOR_SLOTS.head]),
+        torso: this.describe(slots[ARMOR_SLOTS.torso]),
+        legs: this.describe(slots[ARMOR_SLOTS.legs]),
+        feet: this.describe(slots[ARMOR_SLOTS.feet]),
+      },
+      offhand: this.describe(slots[OFFHAND_SLOT]),
+      activeSlot: this.bot.quickBarSlot,
+    };
+  }
+
+  // ─── Item actions ───
+  // Slots are window slots, as in InventoryItem.slot
+
+  /**
+   * Throw `count` of the item in `slot` (the whole stack by default).
+   * A partial toss may take from another stack of the same item.
+   * Returns how many were thrown.
+   */
+  async dropSlot(slot: number, count?: number): Promise<number> {
+    const item = this.itemAt(slot);
+    if (count !== undefined && (!Number.isInteger(count) || count < 1)) {
+      throw new Error('Count must be a positive integer');
+    }
+
+    const n = Math.min(count ?? item.count, item.count);
+    if (n === item.count) await this.bot.tossStack(item);
+    else await this.bot.toss(item.type, item.metadata, n);
+    log.info(`Dropped ${n} ${item.name} from slot ${slot}`);
+    return n;
+  }
+
+  /**
+   * Equip the item in `slot` to the hand, offhand or an armor slot.
+   */
+  async equipSlot(slot: number, destination: string): Promise<void> {
+    const item = this.itemAt(slot);
+    if (!EQUIP_DESTINATIONS.includes(destination as EquipmentDestination)) {
+      throw new Error(`Destination must be one of: ${EQUIP_DESTINATIONS.join(', ')}`);
+    }
+    await this.bot.equip(item, destination as EquipmentDestination);
+    log.info(`Equipped ${item.name} to ${destination}`);
+  }
+
+  /**
+   * Move the stack in `from` to `to`, swapping with whatever is there.
+   */
+  async moveSlot(from: number, to: number): Promise<void> {
+    const item = this.itemAt(from);
+    this.checkSlot(to);
+    if (from === to) return;
+    await this.bot.moveSlotItem(from, to);
+    log.info(`Moved ${item.name} from slot ${from} to ${to}`);
+  }
+
+  /**
+   * Put exactly the stack in `slot` (main or hotbar) into an empty slot of
+   * a chest, found as for depositing. Returns how many went in; 0 when no
+   * chest could be opened or it has no empty slot.
    */
-  async depositToChest(miningArea?: NormalizedArea | null): Promise<boolean> {
-    const chestBlock = this.findChest(miningArea);
+  async depositSlot(slot: number, miningArea?: NormalizedArea | null, signal?: AbortSignal): Promise<number> {
+    const item = this.itemAt(slot);
+    if (slot < 9 || slot >= OFFHAND_SLOT) {
+      throw new Error('Only main and hotbar slots (9-44) can be deposited');
+    }
+
+    const chest = await this.openChest(miningArea, signal);
+    if (!chest) return 0;
+
+    let stored = 0;
+    try {
+      const target = chest.firstEmptyContainerSlot();
+      if (target === null) {
+        log.warn('Chest full, nothing deposited');
+        return 0;
+      }
+      // The same slot as seen in the chest window
+      const source = chest.inventoryStart + slot - 9;
+      await this.bot.moveSlotItem(source, target);
+      const left = chest.slots[source];
+      stored = item.count - (left?.name === item.name ? left.count : 0);
+    } catch (err: any) {
+      log.warn(`Deposit stopped: ${err.message}`);
+    } finally {
+      chest.close();
+    }
+
+    if (stored > 0) {
+      log.success(`Put ${stored} ${item.name} from slot ${slot} in chest`);
+      this.eventBus.emit('inventory:deposited');
+    }
+    return stored;
+  }
+
+  // ─── Private ───
+
+  private describe(item: Item | null): InventoryItem | null {
+    if (!item) return null;
+    const wears = item.maxDurability > 0;
+    return {
+      slot: item.slot,
+      name: item.name,
+      displayName: item.displayName,
+      count: item.count,
+      durability: wears ? item.maxDurability - (item.durabilityUsed ?? 0) : null,
+      maxDurability: wears ? item.maxDurability : null,
+      enchants: item.enchants,
+    };
+  }
+
+  private checkSlot(slot: number): void {
+    if (!Number.isInteger(slot) || slot < FIRST_SLOT || slot > OFFHAND_SLOT) {
+      throw new Error(`Slot must be an integer from ${FIRST_SLOT} to ${OFFHAND_SLOT}`);
+    }
+  }
+
+  private itemAt(slot: number): Item {
+    this.checkSlot(slot);
+    const item = this.bot.inventory.slots[slot];
+    if (!item) throw new Error(`Slot ${slot} is empty`);
+    return item;
+  }
+
+  /**
+   * How many of each main-inventory slot a deposit leaves in place, by slot:
+   * tools, food and torches whole, restock-table items up to their targets
+   * and filler up to the reserve.
+   */
+  private toKeep(): Map<number, number> {
+    const keep = new Map<number, number>();
+    const restockLeft = new Map(Object.entries(this.config.restockTable));
+    let fillerLeft = this.config.fillerReserve;
+
+    for (const item of this.bot.inventory.items()) {
+      if (shouldKeepItem(item.name)) {
+        keep.set(item.slot, item.count);
+        continue;
+      }
+
+      const filler = this.config.fillerBlocks.includes(item.name);
+      const reserve = Math.max(restockLeft.get(item.name) ?? 0, filler ? fillerLeft : 0);
+      const kept = Math.min(item.count, reserve);
+      if (kept === 0) continue;
+
+      keep.set(item.slot, kept);
+      const target = restockLeft.get(item.name);
+      if (target !== undefined) restockLeft.set(item.name, Math.max(0, target - kept));
+      if (filler) fillerLeft = Math.max(0, fillerLeft - kept);
+    }
+    return keep;
+  }
+
+  private announceChange(): void {
+    if (this.changeTimer) return;
+    this.changeTimer = setTimeout(() => {
+      this.changeTimer = null;
+      this.eventBus.emit('inventory:changed');
+    }, CHANGE_DEBOUNCE_MS);
+  }
+
+  /**
+   * Find a chest, walk to it and open it. Returns null (after logging) on failure.
+   */
+  private async openChest(
+    miningArea?: NormalizedArea | null,
+    signal?: AbortSignal,
+    supply = false,
+  ): Promise<any | null> {
+    const chestBlock = supply ? this.findSupplyChest() : this.findChest(miningArea);
 
     if (!chestBlock) {
-      log.warn('No chest found! Place one in the mining area, near the bot, or specify in .env');
-      return false;
+      if (!supply) log.warn('No chest found! Place one in the mining area, near the bot, or specify in .env');
+      return null;
     }
 
     log.info(`Going to chest at ${chestBlock.position}...`);
 
     // Navigate to chest
+    let timer: ReturnType<typeof setTimeout> | undefined;
     try {
-      await new Promise<void>((resolve, reject) => {
-        const timer = setTimeout(() => {
+      await abortable(new Promise<void>((resolve, reject) => {
+        timer = setTimeout(() => {
           this.bot.pathfinder.stop();
           reject(new Error('Chest navigation timeout'));
         }, 30000);
@@ -72,51 +389,37 @@ export class InventoryManager {
         )
           .then(() => { clearTimeout(timer); resolve(); })
           .catch((err) => { clearTimeout(timer); reject(err); });
+      }), signal, () => {
+        clearTimeout(timer);
+        this.bot.pathfinder.stop();
       });
     } catch (err: any) {
+      if (isAborted(err)) throw err;
       log.error(`Failed to reach chest: ${err.message}`);
-      return false;
+      return null;
     }
 
-    // Open and deposit
-    let chest: any;
     try {
-      chest = await (this.bot as any).openChest(chestBlock);
+      throwIfAborted(signal);
+      return await (this.bot as any).openChest(chestBlock);
     } catch (err: any) {
+      if (isAborted(err)) throw err;
       log.error(`Failed to open chest: ${err.message}`);
-      return false;
+      return null;
     }
-
-    try {
-      for (const item of this.bot.inventory.items()) {
-        if (!shouldKeepItem(item.name)) {
-          try {
-            await chest.deposit(item.type, null, item.count);
-          } catch {
-            log.warn('Chest full, stopping deposit');
-            break;
-          }
-        }
-      }
-      log.success('Items deposited to chest');
-      this.eventBus.emit('inventory:deposited');
-    } finally {
-      chest.close();
-    }
-
-    return !this.isFull();
   }
 
-  /**
-   * Get hotbar items for UI display.
-   */
-  getHotbar(): { slots: (null | { name: string; displayName: string; count: number })[]; activeSlot: number } {
-    const slots = [];
-    for (let i = 36; i <= 44; i++) {
-      const item = this.bot.inventory.slots[i];
-      slots.push(item ? { name: item.name, displayName: item.displayName, count: item.count } : null);
+  private findSupplyChest(): Block | null {
+    const supply = this.config.supplyChestLocation;
+    if (!supply) {
+      log.warn('No supply chest set (SUPPLY_CHEST_X/Y/Z), nothing taken');
+      return null;
     }
-    return { slots, activeSlot: this.bot.quickBarSlot };
+
+    const block = this.bot.blockAt(new Vec3(supply.x, supply.y, supply.z));
+    if (block && (block.name === 'chest' || block.name === 'trapped_chest')) return block;
+    log.warn(`No supply chest at (${supply.x}, ${supply.y}, ${supply.z}), nothing taken`);
+    return null;
   }
 
   private findChest(miningArea?: NormalizedArea | null): Block | null {
@@ -0,0 +1,95 @@
+import type { Bot } from 'mineflayer';
+import type { NormalizedArea } from '../types.js';
+import type { BotEventBus } from '../core/event-bus.js';
+import type { AppConfig } from '../core/config.js';
+import type { InventoryManager } from './inventory-manager.js';
+import type { ToolSelector } from './tool-selector.js';
+import { FoodManager } from './food-manager.js';
+import { createLogger } from '../core/logger.js';
+
+const log = createLogger('Restock');
+
+// An item is low below this share of its target; a trip then tops up everything
+const LOW_FRACTION = 0.25;
+// After a trip that left something short, wait before going again
+const RETRY_AFTER_MS = 5 * 60_000;
+
+/**
+ * Keeps food, torches, filler and tools at the targets of the restock table
+ * (RESTOCK) by visiting the supply chest when one of them runs low.
+ */
+export class Restocker {
+  /** Set by `inventory:hungry`: food is needed whatever the counts say */
+  private hungry = false;
+  private nextAttempt = 0;
+
+  constructor(
+    private bot: Bot,
+    private eventBus: BotEventBus,
+    private config: AppConfig,
+    private inventoryManager: InventoryManager,
+    private foodManager: FoodManager,
+    private toolSelector: ToolSelector,
+  ) {
+    this.eventBus.on('inventory:hungry', () => {
+      this.hungry = true;
+    });
+  }
+
+  /**
+   * Whether a trip to the supply chest is due: some item of the table is low
+   * or the bot has no food, and no recent trip came back short.
+   */
+  shouldRestock(): boolean {
+    if (!this.config.supplyChestLocation || Date.now() < this.nextAttempt) return false;
+
+    if ((this.hungry || !this.foodManager.hasFood()) && this.foodEntries().length > 0) return true;
+    return Object.entries(this.config.restockTable)
+      .some(([name, target]) => this.count(name) < target * LOW_FRACTION);
+  }
+
+  /**
+   * Top up every item below its target. Returns how many of each were taken.
+   */
+  async restock(miningArea?: NormalizedArea | null, signal?: AbortSignal): Promise<Record<string, number>> {
+    const wanted = this.wanted();
+    log.info(`Restocking ${[...wanted].map(([name, n]) => `${n} ${name}`).join(', ')}`);
+
+    const taken = await this.inventoryManager.withdrawFromSupply(() => wanted, miningArea, signal);
+    this.hungry = this.hungry && !this.foodManager.hasFood();
+
+    const short = [...wanted].filter(([name, n]) => (taken.get(name) ?? 0) < n).map(([name]) => name);
+    if (short.length > 0) {
+      this.nextAttempt = Date.now() + RETRY_AFTER_MS;
+      log.warn(`Supply chest is short of ${short.join(', ')}; next try in ${RETRY_AFTER_MS / 60_000} min`);
+    }
+
+    const result = Object.fromEntries(taken);
+    if (taken.size > 0) this.eventBus.emit('inventory:restocked', result);
+    return result;
+  }
+
+  // ─── Private ───
+
+  private wanted(): Map<string, number> {
+    const wanted = new Map<string, number>();
+    for (const [name, target] of Object.entries(this.config.restockTable)) {
+      const missing = target - this.count(name);
+      if (missing > 0) wanted.set(name, missing);
+    }
+    return wanted;
+  }
+
+  private foodEntries(): string[] {
+    return Object.keys(this.config.restockTable).filter(name => FoodManager.isFoodItem(name));
+  }
+
+  /**
+   * Tools only count while above the durability floor.
+   */
+  private count(name: string): number {
+    const item = this.bot.registry.itemsByName[name];
+    if (item && item.maxDurability) return this.toolSelector.usableCount(name);
+    return this.inventoryManager.countItem(name);
+  }
+}
@@ -0,0 +1,252 @@
+import type { Bot } from 'mineflayer';
+import type { Block } from 'prismarine-block';
+import { Vec3 } from 'vec3';
+import type { NormalizedArea } from '../types.js';
+import type { BotEventBus } from '../core/event-bus.js';
+import type { AppConfig } from '../core/config.js';
+import type { Navigator } from '../mining/navigator.js';
+import type { InventoryManager } from './inventory-manager.js';
+import { isAborted, throwIfAborted } from '../core/abort.js';
+import { createLogger } from '../core/logger.js';
+
+const log = createLogger('Crafter');
+
+interface PickaxeRecipe {
+  name: string;
+  /** Any one of these, HEAD_COUNT of the same kind */
+  heads: string[];
+}
+
+// Cheapest first: iron is only spent when stone can't harvest the block
+const PICKAXES: PickaxeRecipe[] = [
+  { name: 'stone_pickaxe', heads: ['cobblestone', 'cobbled_deepslate', 'blackstone'] },
+  { name: 'iron_pickaxe', heads: ['iron_ingot'] },
+];
+
+const HEAD_COUNT = 3;
+const STICK_COUNT = 2;
+/** Planks for the four sticks a pickaxe needs two of */
+const STICK_PLANKS = 2;
+const TABLE_PLANKS = 4;
+const PLANKS_PER_LOG = 4;
+const TABLE_SEARCH_RADIUS = 32;
+
+/** oak_log, stripped_oak_log → oak_planks */
+function plankOf(logName: string): string {
+  return logName.replace(/^stripped_/, '').replace(/_(log|stem)$/, '_planks');
+}
+
+const HORIZONTAL = [new Vec3(1, 0, 0), new Vec3(-1, 0, 0), new Vec3(0, 0, 1), new Vec3(0, 0, -1)];
+
+/**
+ * Crafts a replacement pickaxe when none is usable, from mined materials or
+ * the supply chest, at a nearby crafting table or one placed for the job.
+ */
+export class ToolCrafter {
+  private planks: string[];
+  private logs: string[];
+
+  constructor(
+    private bot: Bot,
+    private eventBus: BotEventBus,
+    private config: AppConfig,
+    private inventoryManager: InventoryManager,
+    private navigator: Navigator,
+  ) {
+    const names = Object.keys(bot.registry.itemsByName);
+    this.planks = names.filter(n => n.endsWith('_planks'));
+    // Only wood that has planks: not mushroom_stem
+    this.logs = names.filter(n => /_(log|stem)$/.test(n) && bot.registry.itemsByName[plankOf(n)]);
+  }
+
+  /**
+   * Craft the cheapest pickaxe that can harvest `block`. Returns its name,
+   * or null when auto-crafting is off, no craftable pickaxe would do or
+   * materials are missing.
+   */
+  async craftPickaxeFor(block: Block, miningArea?: NormalizedArea | null, signal?: AbortSignal): Promise<string | null> {
+    if (!this.config.autoCraftTools) return null;
+    const candidates = PICKAXES.filter(p => block.canHarvest(this.bot.registry.itemsByName[p.name]?.id ?? -1));
+    if (candidates.length === 0) return null;
+
+    let recipe = candidates.find(p => this.hasMaterials(p));
+    if (!recipe) {
+      await this.inventoryManager.withdrawFromSupply(stored => this.pickMaterials(candidates, stored), miningArea, signal);
+      recipe = candidates.find(p => this.hasMaterials(p));
+    }
+    if (!recipe) {
+      log.warn(`Missing materials to craft ${candidates.map(p => p.name).join(' or ')}`);
+      this.eventBus.emit('crafting:failed', candidates[0].name, 'missing materials');
+      return null;
+    }
+
+    return (await this.craft(recipe, signal)) ? recipe.name : null;
+  }
+
+  // ─── Private ───
+
+  private async craft(recipe: PickaxeRecipe, signal?: AbortSignal): Promise<boolean> {
+    log.info(`Crafting ${recipe.name}...`);
+    this.eventBus.emit('crafting:started', recipe.name);
+
+    let placed: Block | null = null;
+    try {
+      await this.ensureSticks();
+      const table = await this.findTable(signal) ?? (placed = await this.placeTable());
+      if (!table) throw new Error('No crafting table nearby and none to place');
+
+      throwIfAborted(signal);
+      await this.craftItem(recipe.name, table);
+      log.success(`Crafted ${recipe.name}`);
+      this.eventBus.emit('crafting:finished', recipe.name);
+      return true;
+    } catch (err: any) {
+      if (isAborted(err)) throw err;
+      log.error(`Crafting ${recipe.name} failed: ${err.message}`);
+      this.eventBus.emit('crafting:failed', recipe.name, err.message);
+      return false;
+    } finally {
+      // Take a table we put down back with us
+      if (placed) await this.bot.dig(placed).catch(() => {});
+    }
+  }
+
+  private async ensureSticks(): Promise<void> {
+    if (this.count(['stick']) >= STICK_COUNT) return;
+    if (this.count(this.planks) < STICK_PLANKS) await this.craftItem(this.plankFromLog(), null);
+    await this.craftItem('stick', null);
+  }
+
+  /**
+   * Walk to a crafting table within reach of the search radius.
+   */
+  private async findTable(signal?: AbortSignal): Promise<Block | null> {
+    const id = this.bot.registry.blocksByName.crafting_table.id;
+    const table = this.bot.findBlock({ matching: id, maxDistance: TABLE_SEARCH_RADIUS });
+    if (!table) return null;
+
+    if (this.bot.entity.position.distanceTo(table.position) > 3) {
+      try {
+        await this.navigator.goNear(table.position, 2, signal);
+      } catch (err) {
+        if (isAborted(err)) throw err;
+        log.warn(`Couldn't reach crafting table at ${table.position}`);
+        return null;
+      }
+    }
+    return this.bot.blockAt(table.position);
+  }
+
+  /**
+   * Put a crafting table from the inventory, crafting one if needed, next to the bot.
+   */
+  private async placeTable(): Promise<Block | null> {
+    if (this.count(['crafting_table']) === 0) {
+      if (this.count(this.planks) < TABLE_PLANKS) await this.craftItem(this.plankFromLog(), null);
+      await this.craftItem('crafting_table', null);
+    }
+
+    const feet = this.bot.entity.position.floored();
+    for (const dir of HORIZONTAL) {
+      const pos = feet.plus(dir);
+      const floor = this.bot.blockAt(pos.offset(0, -1, 0));
+      const spot = this.bot.blockAt(pos);
+      if (!floor || floor.boundingBox !== 'block' || !spot || spot.boundingBox !== 'empty') continue;
+
+      const item = this.bot.inventory.items().find(i => i.name === 'crafting_table');
+      if (!item) return null;
+      await this.bot.equip(item, 'hand');
+      await this.bot.placeBlock(floor, new Vec3(0, 1, 0));
+      const table = this.bot.blockAt(pos);
+      if (table?.name === 'crafting_table') return table;
+    }
+    return null;
+  }
+
+  private async craftItem(name: string, table: Block | null): Promise<void> {
+    const id = this.bot.registry.itemsByName[name].id;
+    const recipe = this.bot.recipesFor(id, null, 1, table)[0];
+    if (!recipe) throw new Error(`No recipe for ${name} with the items at hand`);
+    await this.bot.craft(recipe, 1, table ?? undefined);
+  }
+
+  /**
+   * The planks the first log in the inventory turns into.
+   */
+  private plankFromLog(): string {
+    const wood = this.bot.inventory.items().find(i => this.logs.includes(i.name));
+    if (!wood) throw new Error('No planks or logs');
+    return plankOf(wood.name);
+  }
+
+  private hasMaterials(recipe: PickaxeRecipe): boolean {
+    const head = recipe.heads.some(name => this.count([name]) >= HEAD_COUNT);
+    return head && this.plankDeficit(this.needsTable()) <= 0;
+  }
+
+  /**
+   * What to take from the supply chest for the first pickaxe it makes
+   * possible. Empty when none can be completed.
+   */
+  private pickMaterials(candidates: PickaxeRecipe[], stored: Map<string, number>): Map<string, number> {
+    for (const recipe of candidates) {
+      const take = new Map<string, number>();
+
+      if (!recipe.heads.some(name => this.count([name]) >= HEAD_COUNT)) {
+        const head = recipe.heads.find(name => this.count([name]) + (stored.get(name) ?? 0) >= HEAD_COUNT);
+        if (!head) continue;
+        take.set(head, HEAD_COUNT - this.count([head]));
+      }
+
+      let needTable = this.needsTable();
+      if (needTable && (stored.get('crafting_table') ?? 0) > 0) {
+        take.set('crafting_table', 1);
+        needTable = false;
+      }
+
+      let sticks = this.count(['stick']);
+      if (sticks < STICK_COUNT && sticks + (stored.get('stick') ?? 0) >= STICK_COUNT) {
+        take.set('stick', STICK_COUNT - sticks);
+        sticks = STICK_COUNT;
+      }
+
+      let deficit = (sticks >= STICK_COUNT ? 0 : STICK_PLANKS) + (needTable ? TABLE_PLANKS : 0) -
+        this.count(this.planks) - this.count(this.logs) * PLANKS_PER_LOG;
+      for (const name of this.planks) {
+        if (deficit <= 0) break;
+        const n = Math.min(deficit, stored.get(name) ?? 0);
+        if (n > 0) take.set(name, n);
+        deficit -= n;
+      }
+      for (const name of this.logs) {
+        if (deficit <= 0) break;
+        const n = Math.min(Math.ceil(deficit / PLANKS_PER_LOG), stored.get(name) ?? 0);
+        if (n > 0) take.set(name, n);
+        deficit -= n * PLANKS_PER_LOG;
+      }
+
+      if (deficit <= 0) return take;
+    }
+    return new Map();
+  }
+
+  /**
+   * Planks still missing for sticks and, if needed, a table. Logs count as four.
+   */
+  private plankDeficit(needTable: boolean): number {
+    const planks = (this.count(['stick']) >= STICK_COUNT ? 0 : STICK_PLANKS) + (needTable ? TABLE_PLANKS : 0);
+    return planks - this.count(this.planks) - this.count(this.logs) * PLANKS_PER_LOG;
+  }
+
+  private needsTable(): boolean {
+    if (this.count(['crafting_table']) > 0) return false;
+    const id = this.bot.registry.blocksByName.crafting_table.id;
+    return !this.bot.findBlock({ matching: id, maxDistance: TABLE_SEARCH_RADIUS });
+  }
+
+  private count(names: string[]): number {
+    return this.bot.inventory.items()
+      .filter(i => names.includes(i.name))
+      .reduce((sum, i) => sum + i.count, 0);
+  }
+}
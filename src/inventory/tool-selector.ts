@@ -1,5 +1,15 @@
 import type { Bot } from 'mineflayer';
 import type { Block } from 'prismarine-block';
+import type { Item } from 'prismarine-item';
+import type { BlockFilter, ToolInfo, ToolReport } from '../types.js';
+import type { BotEventBus } from '../core/event-bus.js';
+import type { AppConfig } from '../core/config.js';
+import { matchesFilter } from '../mining/block-filter.js';
+import { createLogger } from '../core/logger.js';
+
+const log = createLogger('Tools');
+
+const TOOL_PATTERN = /_(pickaxe|axe|shovel|sword|hoe)$|^shears$/;
 
 const SKIP_BLOCKS = new Set([
   'air', 'cave_air', 'void_air',
@@ -14,30 +24,171 @@ const SKIP_BLOCKS = new Set([
   'black_bed', 'brown_bed', 'cyan_bed', 'gray_bed', 'light_blue_bed',
   'light_gray_bed', 'lime_bed', 'magenta_bed', 'orange_bed', 'pink_bed',
   'purple_bed', 'smithing_table', 'furnace', 
+  'torch', 'wall_torch', 'soul_torch', 'soul_wall_torch',
 ]);
 
+/**
+ * No tool at or above the durability floor can harvest the block. `worn`
+ * lists the tools that could, had they not reached the floor; when it is
+ * empty the bot has no tool of a high enough tier at all.
+ */
+export class NoUsableToolError extends Error {
+  constructor(readonly blockName: string, readonly worn: string[]) {
+    super(`No usable tool for ${blockName}` +
+      (worn.length > 0 ? ` (${[...new Set(worn)].join(', ')} at the durability floor)` : ''));
+    this.name = 'NoUsableToolError';
+  }
+}
+
 export class ToolSelector {
-  constructor(private bot: Bot) {}
+  /** Slots whose tool has already been reported as low */
+  private lowWarned = new Set<number>();
+
+  constructor(
+    private bot: Bot,
+    private eventBus: BotEventBus,
+    private config: AppConfig,
+  ) {}
 
   /**
    * Check if a block should be mined (not air, water, bedrock, etc.)
+   * and, when a filter is given, whether it passes the job's filter.
    */
-  shouldMine(block: Block): boolean {
-    return !SKIP_BLOCKS.has(block.name);
+  shouldMine(block: Block, filter?: BlockFilter): boolean {
+    if (SKIP_BLOCKS.has(block.name)) return false;
+    return matchesFilter(filter, block.name);
   }
 
   /**
-   * Equip the best tool for mining a block.
-   * Returns the name of the equipped tool.
+   * Equip the fastest tool for a block that is above the durability floor.
+   * Returns the name of the equipped tool. With `requireHarvest`, throws
+   * NoUsableToolError when the block needs a tool none of the usable ones is.
    */
-  async equipFor(block: Block): Promise<string> {
+  async equipFor(block: Block, requireHarvest = true): Promise<string> {
+    const tool = this.bestFor(block, requireHarvest);
     try {
-      await (this.bot as any).tool.equipForBlock(block, { requireHarvest: false });
+      if (tool) {
+        if (this.bot.heldItem?.slot !== tool.slot) await this.bot.equip(tool, 'hand');
+        this.warnLow(tool);
+      } else if (this.bot.heldItem && this.isTool(this.bot.heldItem)) {
+        // Never dig with a worn tool, not even one that is already in hand
+        await this.bot.unequip('hand');
+      }
     } catch {
-      // Fall back to hand
+      // Fall back to whatever is held
     }
 
     const held = this.bot.heldItem;
     return held ? held.displayName : 'Hand';
   }
+
+  /**
+   * Whether some usable tool (or the hand) can harvest the block.
+   */
+  hasUsableToolFor(block: Block): boolean {
+    try {
+      this.bestFor(block, true);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * How many `name` tools are above the durability floor.
+   */
+  usableCount(name: string): number {
+    return this.tools().filter(item => item.name === name && this.isUsable(item)).length;
+  }
+
+  /**
+   * Every tool in the inventory with its wear, plus warnings for the panel.
+   */
+  getReport(): ToolReport {
+    const { toolDurabilityFloor: floor, toolDurabilityWarn: warnAt } = this.config;
+    const tools: ToolInfo[] = this.tools().map(item => ({
+      name: item.name,
+      displayName: item.displayName,
+      slot: item.slot,
+      durability: this.remaining(item),
+      maxDurability: item.maxDurability,
+      enchants: item.enchants,
+      usable: this.isUsable(item),
+    }));
+
+    const warnings: string[] = [];
+    for (const tool of tools) {
+      if (!tool.usable) warnings.push(`${tool.displayName} is at the durability floor (${tool.durability} left) and won't be used`);
+      else if (tool.durability <= warnAt) warnings.push(`${tool.displayName} is nearly worn (${tool.durability} left)`);
+    }
+    if (!tools.some(t => t.usable && t.name.endsWith('_pickaxe'))) warnings.push('No usable pickaxe');
+
+    return { floor, warnAt, tools, warnings };
+  }
+
+  // ─── Private ───
+
+  /**
+   * The fastest usable tool for a block, or null when the hand is as fast.
+   */
+  private bestFor(block: Block, requireHarvest: boolean): Item | null {
+    const needsTool = requireHarvest && !block.canHarvest(null);
+    let best: Item | null = null;
+    let bestTime = needsTool ? Infinity : block.digTime(null, false, false, false, [], []);
+
+    for (const item of this.tools()) {
+      if (!this.isUsable(item)) continue;
+      if (needsTool && !block.canHarvest(item.type)) continue;
+      const time = block.digTime(item.type, false, false, false, item.enchants, []);
+      if (time < bestTime) {
+        best = item;
+        bestTime = time;
+      }
+    }
+
+    if (!best && needsTool) {
+      const worn = this.tools().filter(item => block.canHarvest(item.type)).map(item => item.name);
+      throw new NoUsableToolError(block.name, worn);
+    }
+    return best;
+  }
+
+  /**
+   * Uses left before the tool reaches the durability floor and is retired.
+   */
+  usesLeft(item: Item): number {
+    return Math.max(0, this.remaining(item) - this.config.toolDurabilityFloor);
+  }
+
+  private tools(): Item[] {
+    return this.bot.inventory.items().filter(item => this.isTool(item));
+  }
+
+  private isTool(item: Item): boolean {
+    return TOOL_PATTERN.test(item.name) && item.maxDurability > 0;
+  }
+
+  private isUsable(item: Item): boolean {
+    return this.remaining(item) > this.config.toolDurabilityFloor;
+  }
+
+  private remaining(item: Item): number {
+    return item.maxDurability - (item.durabilityUsed ?? 0);
+  }
+
+  /**
+   * Warn once when the tool about to be used is close to the floor.
+   */
+  private warnLow(item: Item): void {
+    const remaining = this.remaining(item);
+    if (remaining > this.config.toolDurabilityWarn) {
+      this.lowWarned.delete(item.slot);
+      return;
+    }
+    if (this.lowWarned.has(item.slot)) return;
+    this.lowWarned.add(item.slot);
+
+    log.warn(`${item.displayName} is nearly worn: ${remaining} uses left, retired at ${this.config.toolDurabilityFloor}`);
+    this.eventBus.emit('inventory:tool-low', item.name, remaining);
+  }
 }
@@ -0,0 +1,8 @@
+import type { Item } from 'prismarine-item';
+
+// Emitted by mineflayer's inventory plugin but missing from its typings
+declare module 'mineflayer' {
+  interface BotEvents {
+    heldItemChanged: (heldItem: Item | null) => void;
+  }
+}
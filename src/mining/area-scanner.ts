@@ -0,0 +1,132 @@
+import type { Bot } from 'mineflayer';
+import type { Block } from 'prismarine-block';
+import { Vec3 } from 'vec3';
+import type { AreaScanResult, AreaShape, BlockFilter, NormalizedArea } from '../types.js';
+import type { ToolSelector } from '../inventory/tool-selector.js';
+import type { ExclusionZones } from '../safety/exclusion-zones.js';
+import { shapeContains } from './area-shapes.js';
+import { createLogger } from '../core/logger.js';
+
+const log = createLogger('Scanner');
+
+// Blocks inspected between yields to the event loop
+const YIELD_EVERY = 65536;
+
+export const AIR_BLOCKS = new Set(['air', 'cave_air', 'void_air']);
+
+/**
+ * Reads the loaded chunks of an area and counts what will actually be mined.
+ */
+export class AreaScanner {
+  private lastScan: AreaScanResult | null = null;
+
+  constructor(
+    private bot: Bot,
+    private toolSelector: ToolSelector,
+    private exclusionZones: ExclusionZones,
+  ) {}
+
+  getLastScan(): AreaScanResult | null {
+    return this.lastScan;
+  }
+
+  async scan(area: NormalizedArea, filter?: BlockFilter, shape?: AreaShape): Promise<AreaScanResult> {
+    const startedAt = Date.now();
+    const counts = new Map<string, number>();
+    let minable = 0;
+    let unloaded = 0;
+
+    const positions = await this.walk(area, shape, (_pos, block) => {
+      if (!block) {
+        unloaded++;
+      } else if (this.toolSelector.shouldMine(block, filter)) {
+        minable++;
+        counts.set(block.name, (counts.get(block.name) ?? 0) + 1);
+      }
+    });
+
+    const byType: Record<string, number> = {};
+    for (const [name, count] of [...counts].sort((a, b) => b[1] - a[1])) {
+      byType[name] = count;
+    }
+
+    const result: AreaScanResult = {
+      area: { min: area.min.clone(), max: area.max.clone() },
+      minable,
+      unloaded,
+      byType,
+      scannedAt: Date.now(),
+      durationMs: Date.now() - startedAt,
+    };
+    this.lastScan = result;
+
+    log.info(`Scanned ${positions} positions in ${result.durationMs}ms: ` +
+      `${minable} to mine, ${unloaded} unloaded, ${counts.size} block types`);
+    return result;
+  }
+
+  /**
+   * Positions in loaded chunks that still hold a block worth mining,
+   * top layer first, and how many positions couldn't be checked because
+   * their chunk wasn't loaded.
+   */
+  async findMinable(
+    area: NormalizedArea,
+    filter?: BlockFilter,
+    shape?: AreaShape,
+  ): Promise<{ found: Vec3[]; unloaded: number }> {
+    const found: Vec3[] = [];
+    let unloaded = 0;
+    await this.walk(area, shape, (pos, block) => {
+      if (!block) unloaded++;
+      else if (this.toolSelector.shouldMine(block, filter)) found.push(pos.clone());
+    });
+    return { found, unloaded };
+  }
+
+  /**
+   * Count the air positions a fill run would place into.
+   */
+  async countFillable(area: NormalizedArea, shape?: AreaShape): Promise<{ fillable: number; unloaded: number }> {
+    let fillable = 0;
+    let unloaded = 0;
+    await this.walk(area, shape, (_pos, block) => {
+      if (!block) unloaded++;
+      else if (AIR_BLOCKS.has(block.name)) fillable++;
+    });
+    return { fillable, unloaded };
+  }
+
+  // ─── Private ───
+
+  /**
+   * Visit every position of the area (within `shape`, if given), top-down.
+   * Positions in exclusion zones are never part of a job and are left out.
+   * `pos` is reused between calls. Returns the number of positions visited.
+   */
+  private async walk(
+    area: NormalizedArea,
+    shape: AreaShape | undefined,
+    visit: (pos: Vec3, block: Block | null) => void,
+  ): Promise<number> {
+    let inspected = 0;
+    let visited = 0;
+    const pos = new Vec3(0, 0, 0);
+    for (let y = area.max.y; y >= area.min.y; y--) {
+      for (let z = area.min.z; z <= area.max.z; z++) {
+        for (let x = area.min.x; x <= area.max.x; x++) {
+          if (++inspected % YIELD_EVERY === 0) {
+            await new Promise(r => setImmediate(r));
+          }
+
+          pos.set(x, y, z);
+          if (shape && !shapeContains(shape, pos)) continue;
+          if (this.exclusionZones.isProtected(pos)) continue;
+          visit(pos, this.bot.blockAt(pos));
+          visited++;
+        }
+      }
+    }
+    return visited;
+  }
+}
@@ -0,0 +1,245 @@
+import { Vec3 } from 'vec3';
+import type { AreaShape, BoxShape, NormalizedArea } from '../types.js';
+import { areaSize, inArea } from './area-utils.js';
+
+// Keeps a shape from turning into a multi-million block job by accident
+const MAX_SHAPE_SPAN = 512;
+
+type Point = { x: number; y: number; z: number };
+
+/**
+ * Smallest box holding every position of the shape. Planners walk this box;
+ * the engine skips the positions the shape leaves out.
+ */
+export function shapeBounds(shape: AreaShape): NormalizedArea {
+  switch (shape.type) {
+    case 'sphere': {
+      const { center: c, radius: r } = shape;
+      return { min: new Vec3(c.x - r, c.y - r, c.z - r), max: new Vec3(c.x + r, c.y + r, c.z + r) };
+    }
+    case 'cylinder': {
+      const { center: c, radius: r } = shape;
+      return { min: new Vec3(c.x - r, shape.minY, c.z - r), max: new Vec3(c.x + r, shape.maxY, c.z + r) };
+    }
+    case 'polygon': {
+      const xs = shape.points.map(p => p.x);
+      const zs = shape.points.map(p => p.z);
+      return {
+        min: new Vec3(Math.min(...xs), shape.minY, Math.min(...zs)),
+        max: new Vec3(Math.max(...xs), shape.maxY, Math.max(...zs)),
+      };
+    }
+    case 'boxes': {
+      const boxes = shape.include;
+      return {
+        min: new Vec3(
+          Math.min(...boxes.map(b => b.min.x)),
+          Math.min(...boxes.map(b => b.min.y)),
+          Math.min(...boxes.map(b => b.min.z)),
+        ),
+        max: new Vec3(
+          Math.max(...boxes.map(b => b.max.x)),
+          Math.max(...boxes.map(b => b.max.y)),
+          Math.max(...boxes.map(b => b.max.z)),
+        ),
+      };
+    }
+  }
+}
+
+/**
+ * Whether the block at `pos` belongs to the shape. Round shapes are tested
+ * at block centres against radius + 0.5, which gives the usual smooth outline.
+ */
+export function shapeContains(shape: AreaShape, pos: Point): boolean {
+  switch (shape.type) {
+    case 'sphere': {
+      const dx = pos.x - shape.center.x, dy = pos.y - shape.center.y, dz = pos.z - shape.center.z;
+      return dx * dx + dy * dy + dz * dz < (shape.radius + 0.5) ** 2;
+    }
+    case 'cylinder': {
+      if (pos.y < shape.minY || pos.y > shape.maxY) return false;
+      const dx = pos.x - shape.center.x, dz = pos.z - shape.center.z;
+      return dx * dx + dz * dz < (shape.radius + 0.5) ** 2;
+    }
+    case 'polygon':
+      return pos.y >= shape.minY && pos.y <= shape.maxY && inPolygon(shape.points, pos.x + 0.5, pos.z + 0.5);
+    case 'boxes':
+      return shape.include.some(b => inArea(b, pos)) && !(shape.exclude ?? []).some(b => inArea(b, pos));
+  }
+}
+
+/**
+ * Number of positions in the shape, or in the whole area when there is none.
+ * Counted column by column from each shape's Y spans, so a large shape
+ * doesn't stall the event loop.
+ */
+export function countPositions(area: NormalizedArea, shape?: AreaShape): number {
+  if (!shape) return areaSize(area);
+
+  let count = 0;
+  for (let z = area.min.z; z <= area.max.z; z++) {
+    for (let x = area.min.x; x <= area.max.x; x++) {
+      for (const [lo, hi] of columnSpans(shape, x, z)) {
+        count += Math.max(0, Math.min(hi, area.max.y) - Math.max(lo, area.min.y) + 1);
+      }
+    }
+  }
+  return count;
+}
+
+/**
+ * Build a shape from API input. Throws with a user-facing message on bad input.
+ */
+export function parseShape(input: unknown): AreaShape {
+  const s = input as any;
+  if (!s || typeof s !== 'object') throw new Error('Shape must be an object with a "type"');
+
+  let shape: AreaShape;
+  switch (s.type) {
+    case 'sphere':
+      shape = { type: 'sphere', center: point(s.center, 'center'), radius: positiveInt(s.radius, 'radius') };
+      break;
+    case 'cylinder': {
+      const [minY, maxY] = yRange(s);
+      const center = { x: int(s.center?.x, 'center.x'), z: int(s.center?.z, 'center.z') };
+      shape = { type: 'cylinder', center, radius: positiveInt(s.radius, 'radius'), minY, maxY };
+      break;
+    }
+    case 'polygon': {
+      if (!Array.isArray(s.points) || s.points.length < 3) {
+        throw new Error('Polygon needs at least 3 points ({ x, z })');
+      }
+      const points = s.points.map((p: any, i: number) => ({ x: int(p?.x, `points[${i}].x`), z: int(p?.z, `points[${i}].z`) }));
+      const [minY, maxY] = yRange(s);
+      shape = { type: 'polygon', points, minY, maxY };
+      break;
+    }
+    case 'boxes': {
+      if (!Array.isArray(s.include) || s.include.length === 0) {
+        throw new Error('Boxes shape needs a non-empty "include" list');
+      }
+      if (s.exclude !== undefined && !Array.isArray(s.exclude)) {
+        throw new Error('"exclude" must be a list of boxes');
+      }
+      shape = {
+        type: 'boxes',
+        include: s.include.map((b: any, i: number) => box(b, `include[${i}]`)),
+        exclude: (s.exclude ?? []).map((b: any, i: number) => box(b, `exclude[${i}]`)),
+      };
+      break;
+    }
+    default:
+      throw new Error(`Unknown shape type "${s.type}" (available: sphere, cylinder, polygon, boxes)`);
+  }
+
+  const bounds = shapeBounds(shape);
+  const span = Math.max(bounds.max.x - bounds.min.x, bounds.max.y - bounds.min.y, bounds.max.z - bounds.min.z) + 1;
+  if (span > MAX_SHAPE_SPAN) {
+    throw new Error(`Shape is too large (${span} blocks across, max ${MAX_SHAPE_SPAN})`);
+  }
+  return shape;
+}
+
+// ─── Private ───
+
+/** Inclusive Y range */
+type Span = [number, number];
+
+/**
+ * Disjoint Y spans of the shape's blocks in the column at (x, z), matching
+ * shapeContains.
+ */
+function columnSpans(shape: AreaShape, x: number, z: number): Span[] {
+  switch (shape.type) {
+    case 'sphere': {
+      const dx = x - shape.center.x, dz = z - shape.center.z;
+      const rest = (shape.radius + 0.5) ** 2 - dx * dx - dz * dz;
+      if (rest <= 0) return [];
+      // Largest |dy| with dy² < rest
+      const k = Math.ceil(Math.sqrt(rest)) - 1;
+      return [[shape.center.y - k, shape.center.y + k]];
+    }
+    case 'cylinder': {
+      const dx = x - shape.center.x, dz = z - shape.center.z;
+      return dx * dx + dz * dz < (shape.radius + 0.5) ** 2 ? [[shape.minY, shape.maxY]] : [];
+    }
+    case 'polygon':
+      return inPolygon(shape.points, x + 0.5, z + 0.5) ? [[shape.minY, shape.maxY]] : [];
+    case 'boxes': {
+      const spans = (boxes: BoxShape[]) => mergeSpans(boxes
+        .filter(b => x >= b.min.x && x <= b.max.x && z >= b.min.z && z <= b.max.z)
+        .map((b): Span => [b.min.y, b.max.y]));
+      return subtractSpans(spans(shape.include), spans(shape.exclude ?? []));
+    }
+  }
+}
+
+function mergeSpans(spans: Span[]): Span[] {
+  const merged: Span[] = [];
+  for (const [lo, hi] of spans.sort((a, b) => a[0] - b[0])) {
+    const last = merged[merged.length - 1];
+    if (last && lo <= last[1] + 1) last[1] = Math.max(last[1], hi);
+    else merged.push([lo, hi]);
+  }
+  return merged;
+}
+
+function subtractSpans(spans: Span[], cuts: Span[]): Span[] {
+  let rest = spans;
+  for (const [cutLo, cutHi] of cuts) {
+    rest = rest.flatMap(([lo, hi]): Span[] => {
+      if (cutHi < lo || cutLo > hi) return [[lo, hi]];
+      const parts: Span[] = [];
+      if (lo < cutLo) parts.push([lo, cutLo - 1]);
+      if (hi > cutHi) parts.push([cutHi + 1, hi]);
+      return parts;
+    });
+  }
+  return rest;
+}
+
+/** Even-odd ray casting in the XZ plane */
+function inPolygon(points: { x: number; z: number }[], x: number, z: number): boolean {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i], b = points[j];
+    if ((a.z > z) !== (b.z > z) && x < ((b.x - a.x) * (z - a.z)) / (b.z - a.z) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function int(value: unknown, field: string): number {
+  const n = Number(value);
+  if (value === undefined || value === null || value === '' || !Number.isInteger(n)) {
+    throw new Error(`Shape field "${field}" must be an integer`);
+  }
+  return n;
+}
+
+function positiveInt(value: unknown, field: string): number {
+  const n = int(value, field);
+  if (n < 1) throw new Error(`Shape field "${field}" must be at least 1`);
+  return n;
+}
+
+function point(value: any, field: string): Point {
+  return { x: int(value?.x, `${field}.x`), y: int(value?.y, `${field}.y`), z: int(value?.z, `${field}.z`) };
+}
+
+function yRange(s: any): [number, number] {
+  const a = int(s.minY, 'minY');
+  const b = int(s.maxY, 'maxY');
+  return [Math.min(a, b), Math.max(a, b)];
+}
+
+function box(value: any, field: string): BoxShape {
+  const a = point(value?.min, `${field}.min`);
+  const b = point(value?.max, `${field}.max`);
+  return {
+    min: { x: Math.min(a.x, b.x), y: Math.min(a.y, b.y), z: Math.min(a.z, b.z) },
+    max: { x: Math.max(a.x, b.x), y: Math.max(a.y, b.y), z: Math.max(a.z, b.z) },
+  };
+}
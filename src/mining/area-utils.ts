@@ -0,0 +1,52 @@
+import { Vec3 } from 'vec3';
+import type { Area, NormalizedArea, SavedMiningState } from '../types.js';
+
+type Point = { x: number; y: number; z: number };
+
+export function normalizeArea(area: Area): NormalizedArea {
+  return {
+    min: new Vec3(
+      Math.min(area.corner1.x, area.corner2.x),
+      Math.min(area.corner1.y, area.corner2.y),
+      Math.min(area.corner1.z, area.corner2.z),
+    ),
+    max: new Vec3(
+      Math.max(area.corner1.x, area.corner2.x),
+      Math.max(area.corner1.y, area.corner2.y),
+      Math.max(area.corner1.z, area.corner2.z),
+    ),
+  };
+}
+
+/**
+ * Whether `p` lies in the box, corners included. Works for job areas and
+ * the plain-JSON boxes of a shape alike.
+ */
+export function inArea(area: { min: Point; max: Point }, p: Point): boolean {
+  return p.x >= area.min.x && p.x <= area.max.x &&
+         p.y >= area.min.y && p.y <= area.max.y &&
+         p.z >= area.min.z && p.z <= area.max.z;
+}
+
+export function areaSize(area: NormalizedArea): number {
+  return (area.max.x - area.min.x + 1) *
+         (area.max.y - area.min.y + 1) *
+         (area.max.z - area.min.z + 1);
+}
+
+/**
+ * Convert a persisted (plain JSON) area back into one with Vec3 corners.
+ */
+export function restoreArea(saved: SavedMiningState['area']): NormalizedArea {
+  return {
+    min: new Vec3(saved.min.x, saved.min.y, saved.min.z),
+    max: new Vec3(saved.max.x, saved.max.y, saved.max.z),
+  };
+}
+
+export function serializeArea(area: NormalizedArea): SavedMiningState['area'] {
+  return {
+    min: { x: area.min.x, y: area.min.y, z: area.min.z },
+    max: { x: area.max.x, y: area.max.y, z: area.max.z },
+  };
+}
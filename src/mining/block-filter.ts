@@ -0,0 +1,81 @@
+import type { BlockFilter } from '../types.js';
+
+// Stone-like filler that "everything except stone" should leave in place
+const STONE_VARIANTS = [
+  'stone', 'cobblestone', 'mossy_cobblestone', 'smooth_stone',
+  'granite', 'diorite', 'andesite', 'tuff', 'calcite',
+  'deepslate', 'cobbled_deepslate', 'blackstone', 'basalt', 'smooth_basalt',
+  'netherrack', 'end_stone',
+];
+
+/**
+ * Built-in filter profiles selectable by name from the API.
+ * Entries may use `*` as a wildcard (e.g. `*_ore`).
+ */
+export const BLOCK_FILTER_PROFILES: Record<string, BlockFilter> = {
+  all:       { profile: 'all',       mode: 'all',     blocks: [] },
+  ores:      { profile: 'ores',      mode: 'include', blocks: ['*_ore', 'ancient_debris'] },
+  'no-stone': { profile: 'no-stone', mode: 'exclude', blocks: STONE_VARIANTS },
+  deepslate: { profile: 'deepslate', mode: 'include', blocks: ['deepslate', 'cobbled_deepslate'] },
+};
+
+const patternCache = new Map<string, RegExp>();
+
+function toPattern(entry: string): RegExp {
+  let re = patternCache.get(entry);
+  if (!re) {
+    const escaped = entry.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+    re = new RegExp(`^${escaped}$`);
+    patternCache.set(entry, re);
+  }
+  return re;
+}
+
+function listMatches(blocks: string[], name: string): boolean {
+  return blocks.some(entry => (entry.includes('*') ? toPattern(entry).test(name) : entry === name));
+}
+
+/**
+ * Whether a block name passes the filter. `SKIP_BLOCKS` is checked separately
+ * by ToolSelector; this only narrows what is left.
+ */
+export function matchesFilter(filter: BlockFilter | undefined, name: string): boolean {
+  if (!filter || filter.mode === 'all') return true;
+  const listed = listMatches(filter.blocks, name);
+  return filter.mode === 'include' ? listed : !listed;
+}
+
+export function isOre(name: string): boolean {
+  return matchesFilter(BLOCK_FILTER_PROFILES.ores, name);
+}
+
+/**
+ * Build a filter from API input: a profile name, or `{ mode, blocks }`.
+ * Throws with a user-facing message on invalid input.
+ */
+export function resolveBlockFilter(input: unknown): BlockFilter {
+  if (input === undefined || input === null || input === '') {
+    return BLOCK_FILTER_PROFILES.all;
+  }
+
+  if (typeof input === 'string') {
+    const profile = BLOCK_FILTER_PROFILES[input];
+    if (!profile) {
+      throw new Error(`Unknown filter profile "${input}" (available: ${Object.keys(BLOCK_FILTER_PROFILES).join(', ')})`);
+    }
+    return profile;
+  }
+
+  if (typeof input === 'object') {
+    const { mode, blocks } = input as { mode?: unknown; blocks?: unknown };
+    if (mode !== 'include' && mode !== 'exclude') {
+      throw new Error('Custom filter mode must be "include" or "exclude"');
+    }
+    if (!Array.isArray(blocks) || blocks.length === 0 || blocks.some(b => typeof b !== 'string' || !b)) {
+      throw new Error('Custom filter needs a non-empty "blocks" array of block names');
+    }
+    return { profile: 'custom', mode, blocks: blocks.map(b => b.trim().toLowerCase()) };
+  }
+
+  throw new Error('Filter must be a profile name or { mode, blocks }');
+}
@@ -0,0 +1,105 @@
+import { Vec3 } from 'vec3';
+import type { NormalizedArea } from '../types.js';
+import type { MiningPlanner, PositionSequence } from './planner.js';
+import { inArea } from './area-utils.js';
+
+const CHUNK_SIZE = 16;
+// Layers per band: the next chunk's top layer stays within reach of the
+// floor the bot is standing on after finishing a band in the previous chunk
+const BAND_HEIGHT = 3;
+
+interface ChunkColumn {
+  minX: number; maxX: number;
+  minZ: number; maxZ: number;
+  /** Cells per layer within the area */
+  size: number;
+  /** Cells per layer in all chunks visited before this one */
+  offset: number;
+}
+
+/**
+ * Plans mining positions chunk by chunk.
+ * The area is cut into horizontal bands of a few layers. Each band is
+ * finished one chunk at a time (chunks visited in a serpentine), so only
+ * the chunks around the bot need to stay loaded.
+ */
+export function planChunks(area: NormalizedArea): PositionSequence {
+  const cx0 = Math.floor(area.min.x / CHUNK_SIZE), cx1 = Math.floor(area.max.x / CHUNK_SIZE);
+  const cz0 = Math.floor(area.min.z / CHUNK_SIZE), cz1 = Math.floor(area.max.z / CHUNK_SIZE);
+
+  // One entry per chunk column, in visiting order (a few hundred at most)
+  const chunks: ChunkColumn[] = [];
+  let layerSize = 0;
+  for (let cz = cz0; cz <= cz1; cz++) {
+    const reverse = (cz - cz0) % 2 === 1;
+    for (let i = 0; i <= cx1 - cx0; i++) {
+      const cx = reverse ? cx1 - i : cx0 + i;
+      const minX = Math.max(area.min.x, cx * CHUNK_SIZE);
+      const maxX = Math.min(area.max.x, cx * CHUNK_SIZE + CHUNK_SIZE - 1);
+      const minZ = Math.max(area.min.z, cz * CHUNK_SIZE);
+      const maxZ = Math.min(area.max.z, cz * CHUNK_SIZE + CHUNK_SIZE - 1);
+      const size = (maxX - minX + 1) * (maxZ - minZ + 1);
+      chunks.push({ minX, maxX, minZ, maxZ, size, offset: layerSize });
+      layerSize += size;
+    }
+  }
+
+  const height = area.max.y - area.min.y + 1;
+  const bandSize = layerSize * BAND_HEIGHT;
+
+  // Last chunk whose offset is <= cell
+  const chunkAt = (cell: number) => {
+    let lo = 0, hi = chunks.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (chunks[mid].offset <= cell) lo = mid;
+      else hi = mid - 1;
+    }
+    return chunks[lo];
+  };
+
+  return {
+    length: layerSize * height,
+    at(index: number): Vec3 {
+      // Only the bottom band can be short, so full-band division holds
+      const band = Math.floor(index / bandSize);
+      const bandTop = area.max.y - band * BAND_HEIGHT;
+      const bandHeight = Math.min(BAND_HEIGHT, bandTop - area.min.y + 1);
+      const inBand = index - band * bandSize;
+
+      // Chunk offsets are per layer, so scale them by the band's height
+      const chunk = chunkAt(Math.floor(inBand / bandHeight));
+      return zigzagInChunk(chunk, bandTop, inBand - chunk.offset * bandHeight);
+    },
+    indexOf(pos) {
+      if (!inArea(area, pos)) return -1;
+      const chunk = chunks.find(c => pos.x >= c.minX && pos.x <= c.maxX && pos.z >= c.minZ && pos.z <= c.maxZ)!;
+
+      const band = Math.floor((area.max.y - pos.y) / BAND_HEIGHT);
+      const bandTop = area.max.y - band * BAND_HEIGHT;
+      const bandHeight = Math.min(BAND_HEIGHT, bandTop - area.min.y + 1);
+
+      const width = chunk.maxX - chunk.minX + 1;
+      const row = pos.z - chunk.minZ;
+      const col = row % 2 === 1 ? chunk.maxX - pos.x : pos.x - chunk.minX;
+      const inChunk = (bandTop - pos.y) * chunk.size + row * width + col;
+      return band * bandSize + chunk.offset * bandHeight + inChunk;
+    },
+  };
+}
+
+function zigzagInChunk(chunk: ChunkColumn, top: number, index: number): Vec3 {
+  const width = chunk.maxX - chunk.minX + 1;
+  const y = top - Math.floor(index / chunk.size);
+  const inLayer = index % chunk.size;
+  const row = Math.floor(inLayer / width);
+  const col = inLayer % width;
+  const x = row % 2 === 1 ? chunk.maxX - col : chunk.minX + col;
+  return new Vec3(x, y, chunk.minZ + row);
+}
+
+export const chunkPlanner: MiningPlanner = {
+  name: 'chunks',
+  description: 'Bands of layers finished one chunk at a time',
+  plan: planChunks,
+};
@@ -0,0 +1,48 @@
+import { Vec3 } from 'vec3';
+import type { NormalizedArea } from '../types.js';
+import type { MiningPlanner, PositionSequence } from './planner.js';
+import { inArea } from './area-utils.js';
+
+/**
+ * Plans mining positions as 2-high walkable corridors.
+ * Layers are taken in pairs from the top; along each snaking row the head
+ * block is cut before the foot block, so the bot always has a standing
+ * space to step into. An odd bottom layer is mined on its own.
+ */
+export function planCorridors(area: NormalizedArea): PositionSequence {
+  const width = area.max.x - area.min.x + 1;
+  const depth = area.max.z - area.min.z + 1;
+  const pairSize = 2 * width * depth;
+
+  return {
+    length: width * depth * (area.max.y - area.min.y + 1),
+    at(index: number): Vec3 {
+      // Only the last pair can be a single layer, so full-pair division holds
+      const top = area.max.y - 2 * Math.floor(index / pairSize);
+      const layers = top > area.min.y ? 2 : 1;
+      const inPair = index % pairSize;
+
+      const cell = Math.floor(inPair / layers);
+      const row = Math.floor(cell / width);
+      const col = cell % width;
+      const x = row % 2 === 1 ? area.max.x - col : area.min.x + col;
+      return new Vec3(x, top - (inPair % layers), area.min.z + row);
+    },
+    indexOf(pos) {
+      if (!inArea(area, pos)) return -1;
+      const pair = Math.floor((area.max.y - pos.y) / 2);
+      const top = area.max.y - 2 * pair;
+      const layers = top > area.min.y ? 2 : 1;
+
+      const row = pos.z - area.min.z;
+      const col = row % 2 === 1 ? area.max.x - pos.x : pos.x - area.min.x;
+      return pair * pairSize + (row * width + col) * layers + (top - pos.y);
+    },
+  };
+}
+
+export const corridorPlanner: MiningPlanner = {
+  name: 'corridor',
+  description: '2-high corridors that always leave a standing path',
+  plan: planCorridors,
+};
@@ -0,0 +1,93 @@
+import type { Bot } from 'mineflayer';
+import type { Vec3 } from 'vec3';
+import type { Block } from 'prismarine-block';
+import type { AdaptiveTimings } from '../network/adaptive-timings.js';
+
+const GRAVITY_BLOCKS = new Set([
+  'sand', 'red_sand', 'gravel',
+  'suspicious_sand', 'suspicious_gravel',
+]);
+
+const POLL_MS = 100;
+
+export function isGravityBlock(name: string): boolean {
+  return GRAVITY_BLOCKS.has(name) || name.endsWith('_concrete_powder');
+}
+
+/**
+ * Tracks sand and gravel that falls when the block under it is dug.
+ */
+export class GravityHandler {
+  constructor(
+    private bot: Bot,
+    private timings: AdaptiveTimings,
+  ) {}
+
+  /**
+   * Height of the unbroken gravity-block column resting on `pos`.
+   * Must be read before `pos` is dug.
+   */
+  columnAbove(pos: Vec3): number {
+    let height = 0;
+    for (let p = pos.offset(0, 1, 0); ; p = p.offset(0, 1, 0)) {
+      const block = this.bot.blockAt(p);
+      if (!block || !isGravityBlock(block.name)) return height;
+      height++;
+    }
+  }
+
+  /**
+   * Wait until no falling block entity is left over the column at `pos`.
+   * Gives the server a moment to spawn them first.
+   */
+  async waitForLanding(pos: Vec3): Promise<void> {
+    const spawnGrace = this.timings.postDigWaitTicks * 50;
+    await this.sleep(spawnGrace);
+
+    const deadline = Date.now() + this.timings.gravitySettleTimeout;
+    while (this.fallingOver(pos) && Date.now() < deadline) {
+      await this.sleep(POLL_MS);
+    }
+  }
+
+  /**
+   * The first block at or below `pos` in its column, if it is a gravity
+   * block, i.e. one that landed in the hole. Air is passed through.
+   */
+  findLanded(pos: Vec3, minY: number): Block | null {
+    for (let p = pos.clone(); p.y >= minY; p = p.offset(0, -1, 0)) {
+      const block = this.bot.blockAt(p);
+      if (!block) return null;
+      if (block.boundingBox === 'empty') continue;
+      return isGravityBlock(block.name) ? block : null;
+    }
+    return null;
+  }
+
+  /**
+   * Whether a gravity block has landed inside the bot's hitbox.
+   */
+  isBuried(): boolean {
+    if (!this.bot.entity) return false;
+    const feet = this.bot.entity.position.floored();
+    return [feet, feet.offset(0, 1, 0)].some(p => {
+      const block = this.bot.blockAt(p);
+      return !!block && isGravityBlock(block.name);
+    });
+  }
+
+  // ─── Private ───
+
+  private fallingOver(pos: Vec3): boolean {
+    return Object.values(this.bot.entities).some(e =>
+      e.name === 'falling_block' &&
+      Math.abs(e.position.x - (pos.x + 0.5)) < 1 &&
+      Math.abs(e.position.z - (pos.z + 0.5)) < 1 &&
+      e.position.y >= pos.y - 1,
+    );
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,223 @@
+import { randomUUID } from 'crypto';
+import type { Area, MiningJob, MiningOptions, MiningProgress, SavedJob } from '../types.js';
+import type { BotEventBus } from '../core/event-bus.js';
+import type { MiningEngine } from './mining-engine.js';
+import { StateManager } from './state-manager.js';
+import { normalizeArea, restoreArea, serializeArea } from './area-utils.js';
+import { countPositions } from './area-shapes.js';
+import { createLogger } from '../core/logger.js';
+
+const log = createLogger('Jobs');
+
+/**
+ * Ordered queue of mining jobs, run one after another through the MiningEngine.
+ * The queue is persisted on every structural change so it survives restarts.
+ */
+export class JobQueue {
+  private jobs: MiningJob[] = [];
+  private processing = false;
+  /** Set when the user stops the running job, as opposed to a disconnect */
+  private stopRequested = false;
+
+  constructor(
+    private miningEngine: MiningEngine,
+    private stateManager: StateManager,
+    private eventBus: BotEventBus,
+  ) {
+    this.jobs = this.stateManager.loadJobs().map(j => ({ ...j, options: j.options ?? {}, area: restoreArea(j.area) }));
+    if (this.jobs.length > 0) {
+      log.info(`Loaded ${this.jobs.length} jobs from disk`);
+    }
+
+    this.eventBus.on('mining:progress', (mined, total) => {
+      const job = this.getActive();
+      if (!job) return;
+      job.minedBlocks = mined;
+      job.totalBlocks = total;
+    });
+
+    // Arrives before mining:finished, so the job carries its summary when done
+    this.eventBus.on('mining:verified', (summary) => {
+      const job = this.getActive();
+      if (job) job.verification = summary;
+    });
+
+    this.eventBus.on('mining:stopped', () => {
+      this.stopRequested = true;
+    });
+
+    // An ad-hoc run (POST /api/start) ending in any way frees the bot for
+    // queued jobs. Deferred so the engine can finish unwinding start() first.
+    const advance = () => setImmediate(() => this.processQueue());
+    this.eventBus.on('mining:finished', advance);
+    this.eventBus.on('mining:error', advance);
+    this.eventBus.on('mining:stopped', advance);
+  }
+
+  // ─── Public API ───
+
+  list(): MiningJob[] {
+    return this.jobs.map(j => ({ ...j }));
+  }
+
+  get(id: string): MiningJob | null {
+    return this.jobs.find(j => j.id === id) ?? null;
+  }
+
+  getActive(): MiningJob | null {
+    return this.jobs.find(j => j.status === 'active') ?? null;
+  }
+
+  add(area: Area, options: Omit<MiningOptions, 'jobId'> = {}, name?: string): MiningJob {
+    const normalized = normalizeArea(area);
+    const job: MiningJob = {
+      id: randomUUID().slice(0, 8),
+      name: name || `Job ${this.jobs.length + 1}`,
+      area: normalized,
+      options,
+      status: 'queued',
+      minedBlocks: 0,
+      totalBlocks: countPositions(normalized, options.shape),
+      createdAt: Date.now(),
+      startedAt: null,
+      finishedAt: null,
+      error: null,
+    };
+
+    this.jobs.push(job);
+    this.changed();
+    log.info(`Queued ${job.name} (${job.id}): ${job.totalBlocks} blocks`);
+
+    this.processQueue();
+    return job;
+  }
+
+  /**
+   * Reorder queued jobs. `ids` must list every queued job exactly once;
+   * jobs in other states keep their place.
+   */
+  reorder(ids: string[]): void {
+    const queued = this.jobs.filter(j => j.status === 'queued');
+    const unique = new Set(ids);
+    if (unique.size !== ids.length || ids.length !== queued.length || queued.some(j => !unique.has(j.id))) {
+      throw new Error('ids must list every queued job exactly once');
+    }
+
+    const byId = new Map(queued.map(j => [j.id, j]));
+    let next = 0;
+    this.jobs = this.jobs.map(j => (j.status === 'queued' ? byId.get(ids[next++])! : j));
+    this.changed();
+  }
+
+  /**
+   * Cancel a job. The active job is stopped; the queue then moves on.
+   * Returns null if the job is unknown.
+   */
+  cancel(id: string): MiningJob | null {
+    const job = this.get(id);
+    if (!job) return null;
+    if (job.status !== 'queued' && job.status !== 'active') return job;
+
+    const wasActive = job.status === 'active';
+    job.status = 'cancelled';
+    job.finishedAt = Date.now();
+    this.changed();
+    log.info(`Cancelled ${job.name} (${job.id})`);
+
+    if (wasActive && this.miningEngine.isBusy()) this.miningEngine.stop();
+    return job;
+  }
+
+  /**
+   * On boot: reattach saved progress to the job it belongs to, or fall back
+   * to resuming an ad-hoc run. Then continue with the queue.
+   */
+  async resumeIfNeeded(): Promise<void> {
+    const saved = this.stateManager.load();
+    const active = this.getActive();
+
+    if (active) {
+      const progress = saved?.options?.jobId === active.id ? StateManager.progressOf(saved) : undefined;
+      log.info(`Resuming ${active.name} (${active.id}) at position ${progress?.positionIndex ?? 0}`);
+      await this.runJob(active, progress);
+    } else if (saved && !saved.options?.jobId) {
+      await this.miningEngine.resumeIfNeeded();
+    }
+
+    await this.processQueue();
+  }
+
+  /**
+   * Run queued jobs until the queue is empty, the bot is busy with
+   * something else, or the bot disconnects. A failed or stopped job is
+   * marked as such and the next one starts.
+   */
+  async processQueue(): Promise<void> {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      while (true) {
+        if (this.miningEngine.isBusy()) return;
+        const job = this.jobs.find(j => j.status === 'queued');
+        if (!job) return;
+
+        const halted = await this.runJob(job);
+        if (halted) return;
+      }
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  // ─── Private ───
+
+  /**
+   * Returns true if the run was halted without the user stopping it
+   * (the bot disconnected), in which case the queue must not advance.
+   */
+  private async runJob(job: MiningJob, progress?: MiningProgress): Promise<boolean> {
+    this.stopRequested = false;
+    job.status = 'active';
+    job.startedAt ??= Date.now();
+    job.error = null;
+    this.changed();
+    this.eventBus.emit('jobs:started', { ...job });
+
+    const area: Area = { corner1: job.area.min, corner2: job.area.max };
+    try {
+      await this.miningEngine.start(area, { ...job.options, jobId: job.id }, progress);
+    } catch (err: any) {
+      job.status = 'failed';
+      job.error = err.message;
+    }
+
+    const state = this.miningEngine.getState();
+    let halted = false;
+
+    if (job.status === 'active') {
+      if (state.status === 'finished') {
+        job.status = 'done';
+      } else if (state.status === 'error') {
+        job.status = 'failed';
+        job.error = state.error;
+      } else {
+        job.status = 'cancelled';
+        halted = !this.stopRequested;
+      }
+    }
+
+    job.finishedAt = Date.now();
+    this.changed();
+    this.eventBus.emit('jobs:finished', { ...job });
+    log.info(`${job.name} (${job.id}) ${job.status}`);
+
+    return halted;
+  }
+
+  private changed(): void {
+    const saved: SavedJob[] = this.jobs.map(j => ({ ...j, area: serializeArea(j.area) }));
+    this.stateManager.saveJobs(saved);
+    this.eventBus.emit('jobs:updated', this.list());
+  }
+}
@@ -0,0 +1,248 @@
+import type { Bot } from 'mineflayer';
+import type { Block } from 'prismarine-block';
+import { Vec3 } from 'vec3';
+import type {
+  MiningOptions, NormalizedArea, SimulationHazard, SimulationResult, ToolWear,
+} from '../types.js';
+import type { ToolSelector } from '../inventory/tool-selector.js';
+import type { InventoryManager } from '../inventory/inventory-manager.js';
+import type { ExclusionZones } from '../safety/exclusion-zones.js';
+import type { AdaptiveTimings } from '../network/adaptive-timings.js';
+import { getPlanner } from './planner.js';
+import { shapeContains } from './area-shapes.js';
+import { createLogger } from '../core/logger.js';
+
+const log = createLogger('Simulator');
+
+// Blocks per second on foot
+const WALK_SPEED = 4.3;
+const TICK_MS = 50;
+// Positions inspected between yields to the event loop
+const YIELD_EVERY = 65536;
+const HAZARD_SAMPLES = 10;
+const TOOL_PATTERN = /_(pickaxe|axe|shovel|hoe)$|^shears$/;
+const NEIGHBOURS = [
+  new Vec3(1, 0, 0), new Vec3(-1, 0, 0),
+  new Vec3(0, 1, 0), new Vec3(0, -1, 0),
+  new Vec3(0, 0, 1), new Vec3(0, 0, -1),
+];
+
+/** A tool from the inventory and how much of it the simulated job used up */
+interface ToolStock {
+  name: string;
+  type: number;
+  enchants: { name: string; lvl: number }[];
+  durability: number;
+  used: number;
+}
+
+/**
+ * Walks a job's planned positions against the loaded world without digging
+ * and estimates what the run would take. Vein mining and falling blocks
+ * are not simulated.
+ */
+export class JobSimulator {
+  constructor(
+    private bot: Bot,
+    private toolSelector: ToolSelector,
+    private exclusionZones: ExclusionZones,
+    private inventoryManager: InventoryManager,
+    private timings: AdaptiveTimings,
+  ) {}
+
+  async simulate(area: NormalizedArea, options: Omit<MiningOptions, 'jobId'> = {}): Promise<SimulationResult> {
+    const startedAt = Date.now();
+    const planner = getPlanner(options.planner);
+    const positions = planner.plan(area);
+    const shape = options.shape;
+
+    const tools = this.toolStock();
+    // Best tool per block type; cleared whenever a tool breaks
+    const bestFor = new Map<number, ToolStock | null>();
+    const counts = new Map<string, number>();
+    const drops = new Map<number, number>();
+    const hazards: SimulationResult['hazards'] = { lava: 0, water: 0, unloaded: 0, samples: [] };
+    const seenLiquids = new Set<string>();
+
+    let jobPositions = 0;
+    let minable = 0;
+    let unharvestable = 0;
+    let handBlocks = 0;
+    let digMs = 0;
+    let distance = 0;
+    let last: Vec3 | null = this.bot.entity?.position.floored() ?? null;
+
+    for (let i = 0; i < positions.length; i++) {
+      if (i > 0 && i % YIELD_EVERY === 0) {
+        await new Promise(r => setImmediate(r));
+      }
+
+      const pos = positions.at(i);
+      if (shape && !shapeContains(shape, pos)) continue;
+      if (this.exclusionZones.isProtected(pos)) continue;
+      jobPositions++;
+
+      const block = this.bot.blockAt(pos);
+      if (!block) {
+        this.addHazard(hazards, 'unloaded', pos);
+        continue;
+      }
+      this.checkLiquid(block, hazards, seenLiquids);
+      if (!this.toolSelector.shouldMine(block, options.filter)) continue;
+
+      minable++;
+      counts.set(block.name, (counts.get(block.name) ?? 0) + 1);
+
+      // Digging opens the block up to whatever is next to it
+      for (const dir of NEIGHBOURS) {
+        const neighbour = this.bot.blockAt(pos.plus(dir));
+        if (neighbour) this.checkLiquid(neighbour, hazards, seenLiquids);
+      }
+
+      let tool = bestFor.get(block.type);
+      if (tool === undefined) {
+        tool = this.bestTool(block, tools);
+        bestFor.set(block.type, tool);
+      }
+
+      digMs += block.digTime(tool?.type ?? null, false, false, false, tool?.enchants ?? [], []);
+      if (block.canHarvest(tool?.type ?? null)) this.addDrops(block, drops);
+      else unharvestable++;
+
+      if (!tool) {
+        handBlocks++;
+      } else if (block.hardness > 0) {
+        tool.used++;
+        if (tool.used >= tool.durability) bestFor.clear();
+      }
+
+      if (last) distance += last.distanceTo(pos);
+      last = pos;
+    }
+
+    const byType: Record<string, number> = {};
+    for (const [name, count] of [...counts].sort((a, b) => b[1] - a[1])) {
+      byType[name] = count;
+    }
+
+    const travelMs = Math.round((distance / WALK_SPEED) * 1000);
+    const overheadMs = minable * (this.timings.interBlockDelay + this.timings.postDigWaitTicks * TICK_MS);
+    digMs = Math.round(digMs);
+
+    const result: SimulationResult = {
+      area: { min: area.min.clone(), max: area.max.clone() },
+      planner: planner.name,
+      positions: jobPositions,
+      minable,
+      byType,
+      tools: this.toolWear(tools, handBlocks),
+      unharvestable,
+      estimate: { digMs, travelMs, overheadMs, totalMs: digMs + travelMs + overheadMs },
+      chestTrips: this.chestTrips(drops),
+      hazards,
+      durationMs: Date.now() - startedAt,
+    };
+
+    log.info(`Simulated ${jobPositions} positions in ${result.durationMs}ms: ${minable} to mine, ` +
+      `~${Math.round(result.estimate.totalMs / 60000)} min, ${result.chestTrips} chest trips, ` +
+      `${hazards.lava} lava, ${hazards.water} water, ${hazards.unloaded} unloaded`);
+    return result;
+  }
+
+  // ─── Private ───
+
+  /**
+   * Tools as the engine sees them: only uses above the durability floor count.
+   */
+  private toolStock(): ToolStock[] {
+    return this.bot.inventory.items()
+      .filter(item => TOOL_PATTERN.test(item.name) && item.maxDurability > 0)
+      .map(item => ({
+        name: item.name,
+        type: item.type,
+        enchants: item.enchants,
+        durability: this.toolSelector.usesLeft(item),
+        used: 0,
+      }))
+      .filter(tool => tool.durability > 0);
+  }
+
+  /**
+   * The fastest unbroken tool for a block, or null when the hand is as fast.
+   */
+  private bestTool(block: Block, tools: ToolStock[]): ToolStock | null {
+    let best: ToolStock | null = null;
+    let bestTime = block.digTime(null, false, false, false, [], []);
+
+    for (const tool of tools) {
+      if (tool.used >= tool.durability) continue;
+      const time = block.digTime(tool.type, false, false, false, tool.enchants, []);
+      if (time < bestTime) {
+        best = tool;
+        bestTime = time;
+      }
+    }
+    return best;
+  }
+
+  private toolWear(tools: ToolStock[], handBlocks: number): ToolWear[] {
+    const wear: ToolWear[] = tools
+      .filter(tool => tool.used > 0)
+      .map(tool => ({
+        tool: tool.name,
+        blocks: tool.used,
+        durability: tool.durability,
+        breaks: tool.used >= tool.durability,
+      }));
+    if (handBlocks > 0) wear.push({ tool: 'hand', blocks: handBlocks, durability: null, breaks: false });
+    return wear;
+  }
+
+  private addDrops(block: Block, drops: Map<number, number>): void {
+    const drop = this.bot.registry.blocks[block.type]?.drops?.[0];
+    if (drop === undefined) return;
+
+    let id: number;
+    let count = 1;
+    if (typeof drop === 'number') {
+      id = drop;
+    } else {
+      id = typeof drop.drop === 'number' ? drop.drop : drop.drop.id;
+      count = Math.max(1, Math.round(drop.maxCount ?? drop.minCount ?? 1));
+    }
+    drops.set(id, (drops.get(id) ?? 0) + count);
+  }
+
+  /**
+   * Deposit trips needed for the drops, filling the free slots first.
+   */
+  private chestTrips(drops: Map<number, number>): number {
+    let slots = 0;
+    for (const [id, count] of drops) {
+      slots += Math.ceil(count / (this.bot.registry.items[id]?.stackSize ?? 64));
+    }
+
+    const free = this.inventoryManager.emptySlots();
+    if (slots <= free) return 0;
+    return Math.ceil((slots - free) / Math.max(1, this.inventoryManager.depositCapacity()));
+  }
+
+  private checkLiquid(block: Block, hazards: SimulationResult['hazards'], seen: Set<string>): void {
+    const kind = block.name === 'lava' || block.name === 'flowing_lava' ? 'lava'
+      : block.name === 'water' || block.name === 'flowing_water' ? 'water'
+      : null;
+    if (!kind) return;
+
+    const key = `${block.position.x},${block.position.y},${block.position.z}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    this.addHazard(hazards, kind, block.position);
+  }
+
+  private addHazard(hazards: SimulationResult['hazards'], kind: SimulationHazard['kind'], pos: Vec3): void {
+    hazards[kind]++;
+    if (hazards[kind] <= HAZARD_SAMPLES) {
+      hazards.samples.push({ kind, pos: { x: pos.x, y: pos.y, z: pos.z } });
+    }
+  }
+}
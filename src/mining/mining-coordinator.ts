@@ -0,0 +1,236 @@
+import { Vec3 } from 'vec3';
+import type {
+  Area, CoordinatedSlice, CoordinatorStatus, MiningOptions, MiningProgress, NormalizedArea,
+} from '../types.js';
+import type { BotEventBus } from '../core/event-bus.js';
+import type { AppConfig } from '../core/config.js';
+import type { BotFleet } from '../core/bot-fleet.js';
+import type { BotInstance } from '../core/bot-instance.js';
+import { StateManager } from './state-manager.js';
+import { normalizeArea } from './area-utils.js';
+import { countPositions } from './area-shapes.js';
+import { createLogger, withBotLogs } from '../core/logger.js';
+
+const log = createLogger('Coordinator');
+
+const ASSIGN_INTERVAL_MS = 5000;
+// More slices than bots, so a fast bot picks up more of the area
+const SLICES_PER_BOT = 2;
+
+/**
+ * Split an area into up to `count` disjoint slabs along its longer
+ * horizontal axis. Each slab keeps the full height.
+ */
+export function sliceArea(area: NormalizedArea, count: number): NormalizedArea[] {
+  const alongX = area.max.x - area.min.x >= area.max.z - area.min.z;
+  const from = alongX ? area.min.x : area.min.z;
+  const length = (alongX ? area.max.x : area.max.z) - from + 1;
+  const n = Math.max(1, Math.min(count, length));
+
+  const slices: NormalizedArea[] = [];
+  for (let i = 0; i < n; i++) {
+    const start = from + Math.floor((length * i) / n);
+    const end = from + Math.floor((length * (i + 1)) / n) - 1;
+    slices.push(alongX
+      ? { min: new Vec3(start, area.min.y, area.min.z), max: new Vec3(end, area.max.y, area.max.z) }
+      : { min: new Vec3(area.min.x, area.min.y, start), max: new Vec3(area.max.x, area.max.y, end) });
+  }
+  return slices;
+}
+
+/**
+ * Mines one area with every bot in the fleet. The area is cut into slices
+ * that idle bots take one at a time; a slice whose bot disconnects goes
+ * back to the pool with its progress and is continued by the next idle bot.
+ */
+export class MiningCoordinator {
+  private run: CoordinatorStatus | null = null;
+  /** Saved progress of slices taken back from a disconnected bot */
+  private progress = new Map<number, MiningProgress>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private fleet: BotFleet,
+    private eventBus: BotEventBus,
+    private config: AppConfig,
+  ) {
+    this.fleet.onInstance(instance => this.watch(instance));
+  }
+
+  // ─── Public API ───
+
+  getStatus(): CoordinatorStatus | null {
+    if (!this.run) return null;
+    return { ...this.run, slices: this.run.slices.map(s => ({ ...s })) };
+  }
+
+  isRunning(): boolean {
+    return this.run !== null && this.run.finishedAt === null;
+  }
+
+  start(area: Area, options: Omit<MiningOptions, 'jobId'> = {}): CoordinatorStatus {
+    if (this.isRunning()) throw new Error('A coordinated run is already in progress');
+
+    const normalized = normalizeArea(area);
+    // Every configured bot: they log in staggered, so a run right after boot
+    // would otherwise be cut for the few already connected
+    const bots = Math.max(1, this.config.usernames.length);
+    const slices: CoordinatedSlice[] = sliceArea(normalized, bots * SLICES_PER_BOT)
+      .map(slice => ({ slice, total: countPositions(slice, options.shape) }))
+      // Slices the shape doesn't reach have nothing to mine
+      .filter(({ total }) => total > 0)
+      .map(({ slice, total }, i) => ({
+        id: i + 1,
+        area: slice,
+        status: 'pending',
+        botId: null,
+        minedBlocks: 0,
+        totalBlocks: total,
+        error: null,
+      }));
+    // No slice would ever finish, so the run couldn't either
+    if (slices.length === 0) throw new Error('Nothing to mine: the shape leaves no position in the area');
+
+    this.run = { area: normalized, options, slices, startedAt: Date.now(), finishedAt: null };
+    this.progress.clear();
+    log.info(`Coordinated run: ${slices.length} slices for ${bots} bots`);
+
+    this.timer = setInterval(() => this.assign(), ASSIGN_INTERVAL_MS);
+    this.assign();
+    this.changed();
+    return this.getStatus()!;
+  }
+
+  /**
+   * Stop every bot working on a slice and drop the run.
+   */
+  stop(): void {
+    if (!this.run) return;
+    for (const slice of this.run.slices) {
+      if (slice.status !== 'active' || !slice.botId) continue;
+      slice.status = 'pending';
+      const engine = this.fleet.get(slice.botId)?.miningEngine;
+      if (engine?.isBusy()) engine.stop();
+    }
+    this.finish('stopped');
+  }
+
+  // ─── Private ───
+
+  private watch(instance: BotInstance): void {
+    instance.eventBus.on('mining:progress', (mined, total) => {
+      const slice = this.activeSliceOf(instance.id);
+      if (!slice) return;
+      slice.minedBlocks = mined;
+      slice.totalBlocks = total;
+    });
+
+    instance.eventBus.on('bot:disconnected', () => this.release(instance));
+  }
+
+  /**
+   * Give pending slices to bots that are connected and idle.
+   */
+  private assign(): void {
+    if (!this.isRunning()) return;
+
+    for (const instance of this.fleet.list()) {
+      if (!instance.isReady() || instance.miningEngine.isBusy() || this.activeSliceOf(instance.id)) continue;
+      const slice = this.run!.slices.find(s => s.status === 'pending');
+      if (!slice) break;
+      withBotLogs(instance.id, () => this.runSlice(slice, instance)).catch(() => {});
+    }
+  }
+
+  private async runSlice(slice: CoordinatedSlice, instance: BotInstance): Promise<void> {
+    const run = this.run!;
+    const progress = this.progress.get(slice.id);
+    this.progress.delete(slice.id);
+
+    slice.status = 'active';
+    slice.botId = instance.id;
+    slice.error = null;
+    this.changed();
+    log.info(`Slice ${slice.id} → ${instance.id}` + (progress ? ` (resuming at ${progress.positionIndex})` : ''));
+
+    const area: Area = { corner1: slice.area.min, corner2: slice.area.max };
+    let error: string | null = null;
+    try {
+      await instance.miningEngine.start(area, run.options, progress);
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    // Taken back in the meantime (disconnect or stop)
+    if (this.run !== run || slice.botId !== instance.id || slice.status !== 'active') return;
+
+    const state = instance.miningEngine.getState();
+    if (!error && state.status === 'finished') {
+      slice.status = 'done';
+    } else if (!instance.isReady()) {
+      this.release(instance);
+      return;
+    } else if (error || state.status === 'error') {
+      slice.status = 'failed';
+      slice.error = error ?? state.error;
+      log.warn(`Slice ${slice.id} failed on ${instance.id}: ${slice.error}`);
+    } else {
+      // Stopped by the user: leave it for another bot
+      slice.status = 'pending';
+      slice.botId = null;
+    }
+
+    this.changed();
+    this.checkFinished();
+    this.assign();
+  }
+
+  /**
+   * Take the slice back from a bot that went away, with its saved progress.
+   */
+  private release(instance: BotInstance): void {
+    const slice = this.activeSliceOf(instance.id);
+    if (!slice) return;
+
+    // Halt first so the old run can't write its progress again
+    instance.miningEngine.halt();
+    const saved = instance.stateManager.load();
+    if (saved && saved.area.min.x === slice.area.min.x && saved.area.min.z === slice.area.min.z &&
+        saved.area.max.x === slice.area.max.x && saved.area.max.z === slice.area.max.z) {
+      this.progress.set(slice.id, StateManager.progressOf(saved));
+      // The bot must not resume this slice on its own after reconnecting
+      instance.stateManager.clear();
+    }
+
+    slice.status = 'pending';
+    slice.botId = null;
+    log.warn(`${instance.id} disconnected; slice ${slice.id} goes back to the pool`);
+    this.changed();
+    this.assign();
+  }
+
+  private activeSliceOf(botId: string): CoordinatedSlice | null {
+    return this.run?.slices.find(s => s.status === 'active' && s.botId === botId) ?? null;
+  }
+
+  private checkFinished(): void {
+    const slices = this.run?.slices ?? [];
+    if (slices.every(s => s.status === 'done' || s.status === 'failed')) {
+      this.finish(slices.some(s => s.status === 'failed') ? 'finished with failed slices' : 'finished');
+    }
+  }
+
+  private finish(outcome: string): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    if (this.run) this.run.finishedAt = Date.now();
+    this.progress.clear();
+    log.success(`Coordinated run ${outcome}`);
+    this.changed();
+  }
+
+  private changed(): void {
+    const status = this.getStatus();
+    if (status) this.eventBus.emit('coordinator:updated', status);
+  }
+}
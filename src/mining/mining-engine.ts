@@ -1,48 +1,113 @@
 import type { Bot } from 'mineflayer';
 import { Vec3 } from 'vec3';
-import type { Area, NormalizedArea, MiningState, MiningStatus } from '../types.js';
+import type { Block } from 'prismarine-block';
+import type {
+  Area, BlockFailure, FailureReason, NormalizedArea, MiningActivityKind, MiningOptions, MiningProgress, MiningState, MiningStatus,
+  VerificationSummary,
+} from '../types.js';
 import type { BotEventBus } from '../core/event-bus.js';
 import type { AdaptiveTimings } from '../network/adaptive-timings.js';
 import type { PositionConfirmer } from '../network/position-confirmer.js';
 import type { PingMonitor } from '../network/ping-monitor.js';
 import type { Navigator } from './navigator.js';
-import type { StateManager } from './state-manager.js';
-import type { ToolSelector } from '../inventory/tool-selector.js';
+import { StateManager } from './state-manager.js';
+import { AIR_BLOCKS, type AreaScanner } from './area-scanner.js';
+import type { GravityHandler } from './gravity-handler.js';
+import type { ScaffoldTracker } from './scaffold-tracker.js';
+import { NoUsableToolError, type ToolSelector } from '../inventory/tool-selector.js';
+import type { ToolCrafter } from '../inventory/tool-crafter.js';
+import type { Restocker } from '../inventory/restocker.js';
 import type { InventoryManager } from '../inventory/inventory-manager.js';
 import type { FoodManager } from '../inventory/food-manager.js';
 import type { AntiStuck } from '../safety/anti-stuck.js';
+import type { LiquidGuard } from '../safety/liquid-guard.js';
+import type { ExclusionZones } from '../safety/exclusion-zones.js';
+import type { DigBoundary } from '../safety/dig-boundary.js';
+import type { TorchPlacer } from '../safety/torch-placer.js';
 import type { AppConfig } from '../core/config.js';
-import { generateZigzagPositions } from './zigzag-planner.js';
+import { getPlanner, type PositionSequence } from './planner.js';
+import { InvalidTransitionError, MiningStateMachine } from './mining-state-machine.js';
+import { inArea, normalizeArea, restoreArea } from './area-utils.js';
+import { countPositions, shapeContains } from './area-shapes.js';
+import { isOre } from './block-filter.js';
+import { findVein } from './vein-finder.js';
+import { OperationAbortedError, isAborted, sleep } from '../core/abort.js';
 import { createLogger } from '../core/logger.js';
 
 const log = createLogger('Miner');
 const REACH_DISTANCE = 4.5;
+// Close enough that the target's chunk is within any server's view distance
+const CHUNK_APPROACH_RANGE = 16;
+const CHUNK_LOAD_WAIT_MS = 5000;
+const MAX_REVISIT_PASSES = 3;
+
+/** What happened to a single target position */
+type DigOutcome = 'mined' | 'skipped' | 'unloaded' | 'failed';
+type PlaceOutcome = 'placed' | 'skipped' | 'unloaded' | 'failed';
+type Outcome = DigOutcome | PlaceOutcome;
+
+// Faces a placed block can rest on, preferring the floor
+const SUPPORT_DIRECTIONS = [
+  new Vec3(0, -1, 0),
+  new Vec3(1, 0, 0), new Vec3(-1, 0, 0), new Vec3(0, 0, 1), new Vec3(0, 0, -1),
+  new Vec3(0, 1, 0),
+];
 
 export class MiningEngine {
   private bot: Bot;
   private eventBus: BotEventBus;
   private navigator: Navigator;
   private stateManager: StateManager;
+  private areaScanner: AreaScanner;
+  private gravity: GravityHandler;
+  private scaffold: ScaffoldTracker;
   private toolSelector: ToolSelector;
+  private toolCrafter: ToolCrafter;
+  private restocker: Restocker;
   private inventoryManager: InventoryManager;
   private foodManager: FoodManager;
   private antiStuck: AntiStuck;
+  private liquidGuard: LiquidGuard;
+  private exclusionZones: ExclusionZones;
+  private digBoundary: DigBoundary;
+  private torchPlacer: TorchPlacer;
   private timings: AdaptiveTimings;
   private posConfirmer: PositionConfirmer;
   private pingMonitor: PingMonitor;
   private config: AppConfig;
 
-  private state: MiningState;
+  private state: Omit<MiningState, 'status' | 'activity'>;
+  private machine: MiningStateMachine;
+  /** Status of a running job: 'filling' in fill mode */
+  private runStatus: 'mining' | 'filling' = 'mining';
+  private options: MiningOptions = {};
+  private positions: PositionSequence | null = null;
+  private positionIndex = 0;
+  private miningVein = false;
+  private settlingColumn = false;
+  private revisit = new Map<string, Vec3>();
+  private failures = new Map<string, BlockFailure>();
+  /** Aborted on stop and pause so walks, digs and chest trips end at once */
+  private abort = new AbortController();
 
   constructor(deps: {
     bot: Bot;
     eventBus: BotEventBus;
     navigator: Navigator;
     stateManager: StateManager;
+    areaScanner: AreaScanner;
+    gravity: GravityHandler;
+    scaffold: ScaffoldTracker;
     toolSelector: ToolSelector;
+    toolCrafter: ToolCrafter;
+    restocker: Restocker;
     inventoryManager: InventoryManager;
     foodManager: FoodManager;
     antiStuck: AntiStuck;
+    liquidGuard: LiquidGuard;
+    exclusionZones: ExclusionZones;
+    digBoundary: DigBoundary;
+    torchPlacer: TorchPlacer;
     timings: AdaptiveTimings;
     posConfirmer: PositionConfirmer;
     pingMonitor: PingMonitor;
@@ -52,20 +117,31 @@ export class MiningEngine {
     this.eventBus = deps.eventBus;
     this.navigator = deps.navigator;
     this.stateManager = deps.stateManager;
+    this.areaScanner = deps.areaScanner;
+    this.gravity = deps.gravity;
+    this.scaffold = deps.scaffold;
     this.toolSelector = deps.toolSelector;
+    this.toolCrafter = deps.toolCrafter;
+    this.restocker = deps.restocker;
     this.inventoryManager = deps.inventoryManager;
     this.foodManager = deps.foodManager;
     this.antiStuck = deps.antiStuck;
+    this.liquidGuard = deps.liquidGuard;
+    this.exclusionZones = deps.exclusionZones;
+    this.digBoundary = deps.digBoundary;
+    this.torchPlacer = deps.torchPlacer;
     this.timings = deps.timings;
     this.posConfirmer = deps.posConfirmer;
     this.pingMonitor = deps.pingMonitor;
     this.config = deps.config;
 
+    this.machine = new MiningStateMachine(this.eventBus);
     this.state = {
-      status: 'idle',
       area: null,
       totalBlocks: 0,
       minedBlocks: 0,
+      revisitBlocks: 0,
+      failedBlocks: 0,
       currentTool: null,
       botPosition: null,
       error: null,
@@ -83,7 +159,11 @@ export class MiningEngine {
     const pingData = this.pingMonitor.getData();
     return {
       ...this.state,
+      status: this.status,
+      activity: this.machine.currentActivity,
       botPosition: pos ? { x: Math.floor(pos.x), y: Math.floor(pos.y), z: Math.floor(pos.z) } : null,
+      revisitBlocks: this.revisit.size,
+      failedBlocks: this.failures.size,
       health: this.bot.health ?? 20,
       food: this.bot.food ?? 20,
       ping: pingData.ping,
@@ -91,67 +171,137 @@ export class MiningEngine {
     };
   }
 
-  async start(area: Area, startIndex = 0): Promise<void> {
-    if (this.state.status === 'mining' && startIndex === 0) {
-      throw new Error('Already mining');
+  /**
+   * Whether a run or a trip is in progress (paused runs count as busy).
+   */
+  isBusy(): boolean {
+    return this.machine.is('mining', 'filling', 'paused', 'traveling');
+  }
+
+  /**
+   * Whether a block can be used for a fill run.
+   */
+  canPlace(blockName: string): boolean {
+    return !!this.bot.registry.blocksByName[blockName] && !!this.bot.registry.itemsByName[blockName];
+  }
+
+  /**
+   * Mine an area, or fill it with `options.fill`. Pass `progress` to continue a saved run.
+   */
+  async start(area: Area, options: MiningOptions = {}, progress?: MiningProgress): Promise<void> {
+    const fill = options.fill;
+    const target = fill ? 'filling' : 'mining';
+    // A paused run still has its loop waiting; it has to be stopped first
+    if (this.isBusy() && !progress) {
+      throw new InvalidTransitionError(this.status, target, `Bot is busy (${this.status})`);
     }
 
-    const normalized = this.normalizeArea(area);
-    this.state.status = 'mining';
+    const normalized = normalizeArea(area);
+    this.machine.transition(target);
+    this.runStatus = target;
     this.state.area = normalized;
-    this.state.minedBlocks = startIndex;
+    this.state.minedBlocks = progress?.minedBlocks ?? 0;
     this.state.error = null;
+    this.options = options;
+    this.positionIndex = progress?.positionIndex ?? 0;
+    this.revisit.clear();
+    for (const p of progress?.revisit ?? []) this.addRevisit(new Vec3(p.x, p.y, p.z));
+    this.failures.clear();
+    for (const f of progress?.failures ?? []) this.failures.set(this.posKey(f.pos), f);
 
-    this.navigator.configureForMining();
+    this.digBoundary.setJob(this.boundaryArea(normalized), this.bot.entity?.position ?? null);
+    if (fill) {
+      // Towers built from the fill block become part of the fill
+      this.navigator.configureForFilling(fill.block);
+    } else {
+      this.navigator.configureForMining();
+      this.scaffold.start();
+    }
     this.antiStuck.enable();
 
     this.eventBus.emit('mining:started', normalized);
-    log.info(`Mining started: ${this.areaSize(normalized)} blocks`);
+    const filter = options.filter;
+    log.info(`${fill ? `Filling with ${fill.block}` : 'Mining'} started: ${countPositions(normalized, options.shape)} blocks` +
+      (options.shape ? ` (${options.shape.type})` : '') +
+      (!fill && filter && filter.mode !== 'all' ? ` (filter: ${filter.profile})` : ''));
 
+    const label = fill ? 'Fill' : 'Mining';
     try {
-      await this.mineArea(normalized, startIndex);
-      if (this.state.status === 'mining') {
-        this.state.status = 'finished';
+      await (fill ? this.fillArea(normalized, fill.block) : this.mineArea(normalized));
+      if (this.status === this.runStatus) {
+        this.machine.transition('finished');
         this.stateManager.clear();
         this.eventBus.emit('mining:finished');
-        log.success('Mining complete!');
+        log.success(`${label} complete!`);
       }
     } catch (err: any) {
-      if ((this.state.status as string) !== 'idle') {
-        this.state.status = 'error';
+      if (!this.machine.is('idle')) {
         this.state.error = err.message;
+        this.machine.transition('error');
         this.eventBus.emit('mining:error', err.message);
-        log.error(`Mining error: ${err.message}`);
+        log.error(`${label} error: ${err.message}`);
       }
     } finally {
       this.antiStuck.disable();
+      this.scaffold.stop();
+      this.digBoundary.clear();
     }
   }
 
+  /**
+   * Throws InvalidTransitionError unless a run is in progress.
+   */
   pause(): void {
-    if (this.state.status === 'mining') {
-      this.state.status = 'paused';
-      this.stateManager.save(this.state.area!, this.state.minedBlocks);
-      this.eventBus.emit('mining:paused', 'user');
-      log.info('Mining paused');
+    if (!this.isRunning()) {
+      throw new InvalidTransitionError(this.status, 'paused', `Nothing to pause (${this.status})`);
     }
+    this.machine.transition('paused');
+    this.cancelOperations();
+    this.saveProgress();
+    this.eventBus.emit('mining:paused', 'user');
+    log.info('Mining paused');
   }
 
+  /**
+   * Throws InvalidTransitionError unless the run is paused.
+   */
   resume(): void {
-    if (this.state.status === 'paused') {
-      this.state.status = 'mining';
-      this.eventBus.emit('mining:resumed');
-      log.info('Mining resumed');
+    if (!this.machine.is('paused')) {
+      throw new InvalidTransitionError(this.status, this.runStatus, `Nothing to resume (${this.status})`);
     }
+    this.machine.transition(this.runStatus);
+    this.eventBus.emit('mining:resumed');
+    log.info('Mining resumed');
   }
 
+  /**
+   * Throws InvalidTransitionError when already idle.
+   */
   stop(): void {
-    this.state.status = 'idle';
+    if (this.machine.is('idle')) {
+      throw new InvalidTransitionError('idle', 'idle', 'Nothing to stop');
+    }
     this.state.error = null;
+    this.machine.transition('idle');
+    this.cancelOperations();
     this.navigator.stop();
     this.antiStuck.disable();
     this.stateManager.clear();
     log.info('Mining stopped');
+    this.eventBus.emit('mining:stopped');
+  }
+
+  /**
+   * End the run without clearing saved progress, for when the connection
+   * is gone and the run will be resumed elsewhere.
+   */
+  halt(): void {
+    if (this.machine.is('idle')) return;
+    this.machine.transition('idle');
+    this.cancelOperations();
+    this.navigator.stop();
+    this.antiStuck.disable();
+    log.info('Mining halted, progress kept');
   }
 
   async resumeIfNeeded(): Promise<void> {
@@ -159,41 +309,70 @@ export class MiningEngine {
     if (!saved) return;
 
     log.info('Found saved progress. Resuming...');
-    const area: Area = {
-      corner1: new Vec3(saved.area.min.x, saved.area.min.y, saved.area.min.z),
-      corner2: new Vec3(saved.area.max.x, saved.area.max.y, saved.area.max.z),
-    };
-    await this.start(area, saved.minedBlocks);
+    const restored = restoreArea(saved.area);
+    const area: Area = { corner1: restored.min, corner2: restored.max };
+    await this.start(area, saved.options ?? {}, StateManager.progressOf(saved));
+  }
+
+  /**
+   * Targets waiting for their chunk to load, in the order they were skipped.
+   */
+  getRevisitList(): { x: number; y: number; z: number }[] {
+    return [...this.revisit.values()].map(p => ({ x: p.x, y: p.y, z: p.z }));
+  }
+
+  /**
+   * Blocks that could not be dug, with the last reason seen.
+   */
+  getFailures(): BlockFailure[] {
+    return [...this.failures.values()].map(f => ({ ...f, pos: { ...f.pos } }));
+  }
+
+  /**
+   * Whether a position is still waiting to be mined in the current run.
+   */
+  isQueued(pos: { x: number; y: number; z: number }): boolean {
+    const area = this.state.area;
+    if (!this.positions || !area || !this.isBusy()) return false;
+
+    const key = this.posKey(pos);
+    if (this.revisit.has(key)) return true;
+    const failure = this.failures.get(key);
+    if (failure && !failure.retried && failure.reason !== 'liquid_hazard') return true;
+
+    const index = this.positions.indexOf(pos);
+    return index >= this.positionIndex &&
+      (!this.options.shape || shapeContains(this.options.shape, pos)) &&
+      !this.exclusionZones.isProtected(pos);
   }
 
   async goToBase(): Promise<void> {
     const base = this.config.baseLocation;
     if (!base) throw new Error('Base coordinates not set in .env');
-    if (this.state.status === 'mining' || this.state.status === 'traveling') {
-      throw new Error('Bot is busy');
+    if (this.isBusy()) {
+      throw new InvalidTransitionError(this.status, 'traveling', `Bot is busy (${this.status})`);
     }
 
-    this.state.status = 'traveling';
-    this.state.error = 'Navigating to base...';
+    this.state.error = null;
+    this.machine.transition('traveling', { kind: 'navigating', message: 'Navigating to base...' });
     this.navigator.configureForTravel();
     this.antiStuck.enable();
 
     try {
       if (base.y === null) {
-        await this.navigator.goToXZ(base.x, base.z);
+        await this.navigator.goToXZ(base.x, base.z, this.signal);
       } else {
-        await this.navigator.goTo(base.x, base.y, base.z, 2);
+        await this.navigator.goTo(base.x, base.y, base.z, 2, this.signal);
       }
 
-      if (this.state.status === 'traveling') {
-        this.state.status = 'idle';
-        this.state.error = null;
+      if (this.status === 'traveling') {
+        this.machine.transition('idle');
         log.success('Reached base!');
       }
     } catch (err: any) {
-      if ((this.state.status as string) !== 'idle') {
-        this.state.status = 'error';
+      if (!this.machine.is('idle')) {
         this.state.error = `Navigation error: ${err.message}`;
+        this.machine.transition('error');
         log.error(`Navigation error: ${err.message}`);
       }
     } finally {
@@ -203,118 +382,414 @@ export class MiningEngine {
 
   // ─── Private ───
 
-  private async mineArea(area: NormalizedArea, startIndex: number): Promise<void> {
-    const positions = generateZigzagPositions(area);
-    this.state.totalBlocks = positions.length;
+  private async mineArea(area: NormalizedArea): Promise<void> {
+    const planner = getPlanner(this.options.planner);
+    const positions = planner.plan(area);
+    this.positions = positions;
+    log.info(`Planner: ${planner.name}`);
+
+    // Scan phase: count what is really there instead of every coordinate.
+    // On a resume, blocks mined earlier are gone, so add them back.
+    this.setActivity('scanning', 'Scanning area...');
+    const scan = await this.areaScanner.scan(area, this.options.filter, this.options.shape);
+    if (this.machine.is('idle')) return;
+    this.setActivity(null);
+    // Unloaded positions are unknown; count them until proven otherwise
+    this.state.totalBlocks = this.state.minedBlocks + scan.minable + scan.unloaded;
+    this.eventBus.emit('mining:scanned', scan);
+    this.eventBus.emit('mining:progress', this.state.minedBlocks, this.state.totalBlocks);
+
+    const shape = this.options.shape;
 
-    for (let i = startIndex; i < positions.length; i++) {
-      if (this.state.status === 'idle') return;
+    for (let i = this.positionIndex; i < positions.length; i++) {
+      if (this.machine.is('idle')) return;
+      this.positionIndex = i;
 
       // Periodic save
       if (i % 50 === 0) {
-        this.stateManager.save(area, this.state.minedBlocks);
+        this.saveProgress();
         await this.sleep(10);
       }
 
-      // Auto-pause on critical ping
-      if (this.timings.shouldAutoPause && this.state.status === 'mining') {
-        log.warn(`Auto-pausing: ping=${this.pingMonitor.currentPing}ms, TPS=${this.pingMonitor.tps}`);
-        this.state.status = 'paused';
-        this.state.error = 'Auto-paused: bad connection';
-        this.eventBus.emit('mining:paused', 'high_ping');
-        while (this.timings.shouldAutoPause && this.state.status === 'paused') {
-          await this.sleep(2000);
-        }
-        if (this.state.status === 'paused') {
-          this.state.status = 'mining';
-          this.state.error = null;
-        }
-      }
+      // Planners walk the bounding box; the shape decides what is in the job
+      const pos = positions.at(i);
+      if (shape && !shapeContains(shape, pos)) continue;
+      if (this.exclusionZones.isProtected(pos)) continue;
 
-      // Health check
-      if (this.bot.health < 14) {
-        const oldStatus = this.state.status;
-        this.state.status = 'paused';
-        this.state.error = 'Healing...';
-        while (this.bot.health < this.config.healToThreshold) {
-          await this.foodManager.eatIfNeeded();
-          await this.sleep(2000);
-          if ((this.state.status as string) === 'idle') return;
-        }
-        this.state.status = oldStatus === 'paused' ? 'paused' : 'mining';
-        this.state.error = null;
-      }
+      if (!(await this.waitUntilReady())) return;
 
-      // Pause handling
-      while ((this.state.status as string) === 'paused') {
-        await this.sleep(500);
-        if ((this.state.status as string) === 'idle') return;
+      const outcome = await this.mineBlock(pos);
+
+      this.positionIndex = i + 1;
+      if (outcome === 'mined') this.countMined();
+      else if (outcome === 'unloaded') this.addRevisit(pos);
+
+      await this.torchPlacer.placeIfNeeded(area, p => this.isQueued(p));
+
+      // Inter-block delay for laggy servers
+      const delay = this.timings.interBlockDelay;
+      if (delay > 0) await this.sleep(delay);
+    }
+
+    await this.revisitUnloaded();
+    await this.retryFailed();
+    if (this.options.verify) await this.verifyArea(area);
+    await this.removeScaffolding();
+  }
+
+  /**
+   * Place the fill block into every air position of the area. The planner
+   * order is walked backwards so each layer rests on the one below.
+   */
+  private async fillArea(area: NormalizedArea, blockName: string): Promise<void> {
+    const planner = getPlanner(this.options.planner);
+    const positions = planner.plan(area);
+    this.positions = positions;
+    log.info(`Planner: ${planner.name} (reversed)`);
+
+    this.setActivity('scanning', 'Scanning area...');
+    const scan = await this.areaScanner.countFillable(area, this.options.shape);
+    if (this.machine.is('idle')) return;
+    this.setActivity(null);
+    this.state.totalBlocks = this.state.minedBlocks + scan.fillable + scan.unloaded;
+    this.eventBus.emit('mining:progress', this.state.minedBlocks, this.state.totalBlocks);
+
+    const shape = this.options.shape;
+    const place = (pos: Vec3) => this.placeAt(pos, blockName);
+
+    // positionIndex counts positions done, so a resume continues from the same end
+    for (let i = this.positionIndex; i < positions.length; i++) {
+      if (this.machine.is('idle')) return;
+      this.positionIndex = i;
+
+      if (i % 50 === 0) {
+        this.saveProgress();
+        await this.sleep(10);
       }
 
-      // Eat if needed
-      await this.foodManager.eatIfNeeded(this.config.foodThreshold);
+      const pos = positions.at(positions.length - 1 - i);
+      if (shape && !shapeContains(shape, pos)) continue;
+      if (this.exclusionZones.isProtected(pos)) continue;
 
-      const pos = positions[i];
-      await this.mineBlock(pos, area);
+      if (!(await this.waitUntilReady())) return;
 
-      this.state.minedBlocks = i + 1;
-      this.eventBus.emit('mining:progress', this.state.minedBlocks, this.state.totalBlocks);
+      const outcome = await place(pos);
+
+      this.positionIndex = i + 1;
+      if (outcome === 'placed') this.countMined();
+      else if (outcome === 'unloaded') this.addRevisit(pos);
 
-      // Inter-block delay for laggy servers
       const delay = this.timings.interBlockDelay;
       if (delay > 0) await this.sleep(delay);
     }
+
+    await this.revisitUnloaded(place);
+    // Blocks placed since may give a failed position something to rest on
+    await this.retryFailed(place);
   }
 
-  private async mineBlock(pos: Vec3, area: NormalizedArea): Promise<void> {
+  /**
+   * Checks run before each target: connection, health, user pause, hunger,
+   * supplies.
+   * Returns false if mining was stopped while waiting.
+   */
+  private async waitUntilReady(): Promise<boolean> {
+    // Auto-pause on critical ping
+    if (this.timings.shouldAutoPause && this.isRunning()) {
+      log.warn(`Auto-pausing: ping=${this.pingMonitor.currentPing}ms, TPS=${this.pingMonitor.tps}`);
+      this.machine.transition('paused', { kind: 'bad_connection', message: 'Auto-paused: bad connection' });
+      this.eventBus.emit('mining:paused', 'high_ping');
+      while (this.timings.shouldAutoPause && this.machine.is('paused')) {
+        await this.sleep(2000);
+      }
+      if (this.machine.is('paused')) this.machine.transition(this.runStatus);
+    }
+
+    // Health check
+    if (this.bot.health < 14 && !this.machine.is('idle')) {
+      const wasPaused = this.machine.is('paused');
+      this.machine.transition('paused', { kind: 'healing', message: 'Healing...' });
+      while (this.bot.health < this.config.healToThreshold) {
+        await this.restock();
+        await this.eat();
+        await this.sleep(2000);
+        if (this.machine.is('idle')) return false;
+      }
+      this.machine.transition(wasPaused ? 'paused' : this.runStatus);
+    }
+
+    // Pause handling
+    while (this.machine.is('paused')) {
+      await this.sleep(500);
+      if (this.machine.is('idle')) return false;
+    }
+
+    // Fetch food, torches, filler and tools running low, then eat if needed
+    await this.restock();
+    await this.eat(this.config.foodThreshold);
+
+    return !this.machine.is('idle');
+  }
+
+  /**
+   * Retry targets that sat in unloaded chunks before the run may finish.
+   */
+  private async revisitUnloaded(handle: (pos: Vec3) => Promise<Outcome> = pos => this.mineBlock(pos)): Promise<void> {
+    for (let pass = 1; pass <= MAX_REVISIT_PASSES && this.revisit.size > 0; pass++) {
+      log.info(`Revisit pass ${pass}: ${this.revisit.size} blocks in unloaded chunks`);
+
+      for (const [key, pos] of [...this.revisit]) {
+        if (!(await this.waitUntilReady())) return;
+
+        const outcome = await handle(pos);
+        if (outcome === 'unloaded') continue;
+        this.revisit.delete(key);
+        if (outcome === 'mined' || outcome === 'placed') this.countMined();
+      }
+      this.saveProgress();
+    }
+
+    if (this.revisit.size > 0) {
+      log.warn(`${this.revisit.size} blocks still in unloaded chunks, left on the revisit list`);
+    }
+  }
+
+  /**
+   * Second pass over blocks that failed during the run. Blocks that fail
+   * again stay on the failure list for the report.
+   */
+  private async retryFailed(handle: (pos: Vec3) => Promise<Outcome> = pos => this.mineBlock(pos)): Promise<void> {
+    const pending = [...this.failures.values()].filter(f => !f.retried && f.reason !== 'liquid_hazard');
+    if (pending.length === 0) return;
+
+    log.info(`Retrying ${pending.length} failed blocks`);
+    let recovered = 0;
+
+    for (const failure of pending) {
+      if (!(await this.waitUntilReady())) return;
+
+      const pos = new Vec3(failure.pos.x, failure.pos.y, failure.pos.z);
+      const outcome = await handle(pos);
+      const key = this.posKey(pos);
+
+      if (outcome === 'failed' || outcome === 'unloaded') {
+        const current = this.failures.get(key);
+        if (current) current.retried = true;
+        if (outcome === 'unloaded') this.addRevisit(pos);
+        continue;
+      }
+
+      this.failures.delete(key);
+      if (outcome === 'mined' || outcome === 'placed') {
+        this.countMined();
+        recovered++;
+      }
+    }
+
+    this.saveProgress();
+    if (this.failures.size > 0) {
+      log.warn(`Retry pass recovered ${recovered}; ${this.failures.size} blocks still failed`);
+    } else {
+      log.success(`Retry pass recovered all ${recovered} failed blocks`);
+    }
+  }
+
+  /**
+   * Rescan the whole area once the passes are done and mine whatever is
+   * still standing: fallen gravel, blocks lost to lag, ghost blocks.
+   * Known failures are not retried again here. Positions in chunks that are
+   * still unloaded can't be checked and are reported as unverified.
+   */
+  private async verifyArea(area: NormalizedArea): Promise<void> {
+    if (this.machine.is('idle')) return;
+    const startedAt = Date.now();
+
+    this.setActivity('verifying', 'Verifying area...');
+    const scan = await this.areaScanner.findMinable(area, this.options.filter, this.options.shape);
+    const leftovers = scan.found.filter(pos => !this.failures.has(this.posKey(pos)));
+    this.setActivity(null);
+    log.info(`Verification sweep: ${leftovers.length} blocks left behind` +
+      (scan.unloaded > 0 ? `, ${scan.unloaded} positions unloaded` : ''));
+
+    const summary: VerificationSummary = {
+      leftover: leftovers.length, mined: 0, failed: 0, unverified: scan.unloaded, durationMs: 0,
+    };
+    if (leftovers.length > 0) {
+      this.state.totalBlocks = Math.max(this.state.totalBlocks, this.state.minedBlocks + leftovers.length);
+    }
+
+    for (const pos of leftovers) {
+      if (!(await this.waitUntilReady())) return;
+
+      const outcome = await this.mineBlock(pos);
+      if (outcome === 'mined') {
+        this.countMined();
+        summary.mined++;
+      } else if (outcome === 'failed') {
+        summary.failed++;
+      } else if (outcome === 'unloaded') {
+        this.addRevisit(pos);
+        summary.unverified++;
+      }
+    }
+
+    this.saveProgress();
+    summary.durationMs = Date.now() - startedAt;
+    this.eventBus.emit('mining:verified', summary);
+    log.success(`Verification sweep mined ${summary.mined}/${summary.leftover} leftover blocks` +
+      (summary.failed > 0 ? `, ${summary.failed} failed` : ''));
+    if (summary.unverified > 0) {
+      log.warn(`${summary.unverified} positions in unloaded chunks were not verified`);
+    }
+  }
+
+  /**
+   * Take down the pillars and bridges the pathfinder built during the run.
+   * Reaching the top of a pillar may take new scaffolding, hence the passes.
+   */
+  private async removeScaffolding(): Promise<void> {
+    for (let pass = 1; pass <= MAX_REVISIT_PASSES; pass++) {
+      const blocks = this.scaffold.remaining();
+      if (blocks.length === 0) return;
+      log.info(`Removing ${blocks.length} scaffold blocks`);
+
+      for (const pos of blocks) {
+        if (!(await this.waitUntilReady())) return;
+        // Our own blocks: the job filter and the dig boundary don't apply
+        this.digBoundary.permit(pos);
+        const outcome = await this.mineBlock(pos, undefined);
+        if (outcome !== 'unloaded') this.scaffold.forget(pos);
+      }
+    }
+  }
+
+  /**
+   * Walk toward a target in an unloaded chunk and wait for the chunk to arrive.
+   * Returns true once the block can be read.
+   */
+  private async loadChunkAt(pos: Vec3): Promise<boolean> {
+    log.debug(`Target ${pos} is in an unloaded chunk, moving closer`);
+    try {
+      await this.navigator.goNear(pos, CHUNK_APPROACH_RANGE, this.signal);
+    } catch {
+      // Partial progress may still bring the chunk in
+    }
+
+    const deadline = Date.now() + CHUNK_LOAD_WAIT_MS;
+    while (!this.bot.blockAt(pos)) {
+      if (Date.now() >= deadline || this.machine.is('idle')) return false;
+      await this.sleep(250);
+    }
+    return true;
+  }
+
+  /**
+   * Dig the block at `pos` if it passes the filter.
+   */
+  private async mineBlock(pos: Vec3, filter = this.options.filter): Promise<DigOutcome> {
+    // Covers veins, fallen columns and retries, not just planned positions
+    const zone = this.exclusionZones.zoneAt(pos);
+    if (zone) {
+      log.debug(`Skipping ${pos}: inside zone ${zone.name}`);
+      return 'skipped';
+    }
+    if (!this.digBoundary.check(pos, 'miner')) return 'skipped';
+
+    if (!this.bot.blockAt(pos) && !(await this.loadChunkAt(pos))) return 'unloaded';
+
     let attempts = 0;
     const maxAttempts = 3;
+    let lastReason: FailureReason = 'dig_error';
+    let blockName = 'unknown';
 
     while (attempts < maxAttempts) {
-      if ((this.state.status as string) === 'idle') return;
+      if (this.machine.is('idle')) return 'skipped';
 
       // Clear overlapping blocks
-      await this.antiStuck.clearOverlapping();
+      await this.antiStuck.clearOverlapping(this.signal);
 
       const block = this.bot.blockAt(pos);
-      if (!block || !this.toolSelector.shouldMine(block)) return;
+      if (!block) return 'unloaded';
+      if (!this.toolSelector.shouldMine(block, filter)) return 'skipped';
 
       // Check inventory
       if (this.inventoryManager.isFull()) {
-        this.state.error = 'Depositing items...';
+        this.setActivity('depositing', 'Depositing items...');
         this.eventBus.emit('inventory:full');
-        const freed = await this.inventoryManager.depositToChest(this.state.area);
-        this.state.error = null;
+        let freed: boolean;
+        try {
+          freed = await this.inventoryManager.depositToChest(this.state.area, this.signal);
+        } catch (err) {
+          if (!isAborted(err)) throw err;
+          // Paused or stopped on the way: start the trip over once resumed
+          if (!(await this.waitUntilReady())) return 'skipped';
+          continue;
+        } finally {
+          this.setActivity(null);
+        }
         if (!freed) {
-          this.state.status = 'paused';
-          this.state.error = 'Inventory full, no chest found';
-          this.stateManager.save(area, this.state.minedBlocks);
-          while (this.state.status === 'paused') {
+          if (this.machine.is('idle')) return 'skipped';
+          this.machine.transition('paused', { kind: 'inventory_full', message: 'Inventory full, no chest found' });
+          this.saveProgress();
+          while (this.machine.is('paused')) {
             await this.sleep(1000);
             if (!this.inventoryManager.isFull()) {
-              this.state.status = 'mining';
-              this.state.error = null;
+              this.machine.transition(this.runStatus);
               break;
             }
           }
-          if (this.state.status !== 'mining') return;
+          if (!this.isRunning()) return 'skipped';
         }
       }
 
       // Navigate to block if out of reach
+      let pathFailed = false;
       const distance = this.bot.entity.position.distanceTo(pos);
       if (distance > REACH_DISTANCE || !this.bot.canSeeBlock(block)) {
         try {
-          await this.navigator.goNear(pos, 2);
-        } catch {
-          // Ignore, will retry
+          await this.navigator.goNear(pos, 2, this.signal);
+        } catch (err) {
+          if (isAborted(err)) {
+            if (!(await this.waitUntilReady())) return 'skipped';
+            continue;
+          }
+          // Will retry; remembered in case the block stays out of reach
+          pathFailed = true;
         }
       }
 
       const targetBlock = this.bot.blockAt(pos);
-      if (!targetBlock || !this.toolSelector.shouldMine(targetBlock)) return;
+      if (!targetBlock) return 'unloaded';
+      if (!this.toolSelector.shouldMine(targetBlock, filter)) return 'skipped';
+      blockName = targetBlock.name;
+
+      // The liquid check needs the target in reach: walk closer on the next attempt
+      if (this.bot.entity.position.distanceTo(pos) > REACH_DISTANCE) {
+        attempts++;
+        lastReason = pathFailed ? 'path_timeout' : 'not_visible';
+        await this.sleep(500);
+        continue;
+      }
 
-      this.state.currentTool = await this.toolSelector.equipFor(targetBlock);
+      // Never open a block that holds back water or lava
+      if ((await this.liquidGuard.protect(targetBlock)) === 'skip') {
+        this.recordFailure(pos, blockName, 'liquid_hazard', attempts);
+        return 'failed';
+      }
+
+      try {
+        this.state.currentTool = await this.toolSelector.equipFor(targetBlock);
+      } catch (err) {
+        if (!(err instanceof NoUsableToolError)) throw err;
+        // Nothing to wait for when no tool is of a high enough tier; leave the block be
+        if (err.worn.length === 0) {
+          this.recordFailure(pos, blockName, 'no_tool', attempts);
+          return 'failed';
+        }
+        if (await this.craftTool(targetBlock)) continue;
+        if (!(await this.waitForTool(targetBlock, err.message))) return 'skipped';
+        continue;
+      }
 
       try {
         await this.bot.lookAt(targetBlock.position.offset(0.5, 0.5, 0.5), true);
@@ -325,29 +800,47 @@ export class MiningEngine {
           throw new Error('Block not visible after looking');
         }
 
-        // Dig with adaptive timeout
+        // Read before digging: once the target is gone the column is falling
+        const gravityAbove = this.settlingColumn ? 0 : this.gravity.columnAbove(pos);
+
+        // Dig with adaptive timeout; stop and pause cut it short
+        const signal = this.signal;
         await new Promise<void>((resolve, reject) => {
           let finished = false;
           const timeout = this.timings.digTimeout;
 
+          const onAbort = () => {
+            if (finished) return;
+            finished = true;
+            clearTimeout(timer);
+            this.bot.stopDigging();
+            reject(new OperationAbortedError());
+          };
+
           const timer = setTimeout(() => {
             if (finished) return;
             finished = true;
+            signal.removeEventListener('abort', onAbort);
             this.bot.stopDigging();
             setTimeout(() => reject(new Error('Dig timeout')), 300);
           }, timeout);
 
+          if (signal.aborted) return onAbort();
+          signal.addEventListener('abort', onAbort, { once: true });
+
           this.bot.dig(targetBlock)
             .then(() => {
               if (finished) return;
               finished = true;
               clearTimeout(timer);
+              signal.removeEventListener('abort', onAbort);
               resolve();
             })
             .catch((err) => {
               if (finished) return;
               finished = true;
               clearTimeout(timer);
+              signal.removeEventListener('abort', onAbort);
               reject(err);
             });
         });
@@ -356,39 +849,406 @@ export class MiningEngine {
         await this.posConfirmer.waitAfterDig(pos);
 
         this.antiStuck.markSafePosition();
-        this.stateManager.save(area, this.state.minedBlocks);
+        this.saveProgress();
         this.eventBus.emit('mining:block-mined', pos, targetBlock.name);
 
-        return; // Success
-      } catch {
+        if (this.options.vein && !this.miningVein && isOre(targetBlock.name)) {
+          await this.mineVein(pos, targetBlock.name);
+        }
+
+        if (gravityAbove > 0) {
+          await this.reMineColumn(pos, gravityAbove);
+        }
+
+        return 'mined';
+      } catch (err: any) {
+        // Cut short by pause or stop: not the block's fault
+        if (isAborted(err)) {
+          if (!(await this.waitUntilReady())) return 'skipped';
+          continue;
+        }
         attempts++;
+        lastReason = this.failureReason(err, pathFailed);
         await this.sleep(500);
       }
     }
+
+    this.recordFailure(pos, blockName, lastReason, attempts);
+    return 'failed';
   }
 
-  private normalizeArea(area: Area): NormalizedArea {
-    return {
-      min: new Vec3(
-        Math.min(area.corner1.x, area.corner2.x),
-        Math.min(area.corner1.y, area.corner2.y),
-        Math.min(area.corner1.z, area.corner2.z),
-      ),
-      max: new Vec3(
-        Math.max(area.corner1.x, area.corner2.x),
-        Math.max(area.corner1.y, area.corner2.y),
-        Math.max(area.corner1.z, area.corner2.z),
-      ),
+  /**
+   * Place `blockName` at `pos` if it is air.
+   */
+  private async placeAt(pos: Vec3, blockName: string): Promise<PlaceOutcome> {
+    const zone = this.exclusionZones.zoneAt(pos);
+    if (zone) {
+      log.debug(`Skipping ${pos}: inside zone ${zone.name}`);
+      return 'skipped';
+    }
+
+    if (!this.bot.blockAt(pos) && !(await this.loadChunkAt(pos))) return 'unloaded';
+
+    let attempts = 0;
+    const maxAttempts = 3;
+    let lastReason: FailureReason = 'place_error';
+
+    while (attempts < maxAttempts) {
+      if (this.machine.is('idle')) return 'skipped';
+
+      const block = this.bot.blockAt(pos);
+      if (!block) return 'unloaded';
+      if (!AIR_BLOCKS.has(block.name)) return 'skipped';
+
+      if (!(await this.ensureFillStock(blockName))) return 'skipped';
+
+      // Out of reach, or standing in the spot to fill
+      let pathFailed = false;
+      if (this.bot.entity.position.distanceTo(pos) > REACH_DISTANCE || this.isOccupiedByBot(pos)) {
+        try {
+          await this.navigator.goToPlace(pos, this.signal);
+        } catch (err) {
+          if (isAborted(err)) {
+            if (!(await this.waitUntilReady())) return 'skipped';
+            continue;
+          }
+          pathFailed = true;
+        }
+      }
+
+      const support = this.findSupport(pos);
+      if (!support) {
+        this.recordFailure(pos, blockName, 'no_support', attempts + 1);
+        return 'failed';
+      }
+
+      try {
+        const item = this.bot.inventory.items().find(i => i.name === blockName);
+        if (!item) throw new Error(`No ${blockName} in inventory`);
+        await this.bot.equip(item, 'hand');
+        await this.bot.placeBlock(support.block, support.face);
+      } catch (err: any) {
+        // placeBlock rejects on a late block update even when the block landed
+        if (this.bot.blockAt(pos)?.name !== blockName) {
+          attempts++;
+          lastReason = pathFailed ? 'path_timeout' : 'place_error';
+          log.debug(`Place at ${pos} failed: ${err.message}`);
+          await this.sleep(500);
+          continue;
+        }
+      }
+
+      this.antiStuck.markSafePosition();
+      this.saveProgress();
+      this.eventBus.emit('mining:block-placed', pos, blockName);
+      return 'placed';
+    }
+
+    this.recordFailure(pos, blockName, lastReason, attempts);
+    return 'failed';
+  }
+
+  /**
+   * A solid neighbour to place against and the face of it touching `pos`.
+   */
+  private findSupport(pos: Vec3): { block: Block; face: Vec3 } | null {
+    for (const dir of SUPPORT_DIRECTIONS) {
+      const block = this.bot.blockAt(pos.plus(dir));
+      if (block && block.boundingBox === 'block') return { block, face: dir.scaled(-1) };
+    }
+    return null;
+  }
+
+  private isOccupiedByBot(pos: Vec3): boolean {
+    const feet = this.bot.entity.position.floored();
+    return pos.x === feet.x && pos.z === feet.z && (pos.y === feet.y || pos.y === feet.y + 1);
+  }
+
+  /**
+   * Make sure the fill block is in the inventory, restocking from a chest.
+   * Pauses until some shows up when there is none to take.
+   * Returns false if the run was stopped while waiting.
+   */
+  private async ensureFillStock(blockName: string): Promise<boolean> {
+    if (this.inventoryManager.countItem(blockName) > 0) return true;
+
+    this.setActivity('restocking', `Restocking ${blockName}...`);
+    const room = Math.max(1, this.inventoryManager.emptySlots()) * 64;
+    let taken: number;
+    try {
+      taken = await this.inventoryManager.withdrawFromChest(blockName, room, this.state.area, this.signal);
+    } catch (err) {
+      if (!isAborted(err)) throw err;
+      // Paused or stopped on the way: start the trip over once resumed
+      return (await this.waitUntilReady()) && this.ensureFillStock(blockName);
+    } finally {
+      this.setActivity(null);
+    }
+    if (taken > 0) return true;
+    if (this.machine.is('idle')) return false;
+
+    const message = `Out of ${blockName}, no chest to restock from`;
+    this.machine.transition('paused', { kind: 'out_of_blocks', message });
+    this.saveProgress();
+    this.eventBus.emit('mining:paused', 'out_of_blocks');
+    log.warn(message);
+
+    while (this.machine.is('paused')) {
+      await this.sleep(1000);
+      if (this.inventoryManager.countItem(blockName) > 0) {
+        this.machine.transition(this.runStatus);
+        this.eventBus.emit('mining:resumed');
+        break;
+      }
+    }
+    return this.isRunning();
+  }
+
+  /**
+   * Try to craft a pickaxe that can harvest `block`. Returns true once one is
+   * in the inventory; false if that failed or was cut short by pause or stop.
+   */
+  private async craftTool(block: Block): Promise<boolean> {
+    if (!this.isRunning()) return false;
+
+    this.setActivity('crafting', `Crafting a pickaxe for ${block.name}...`);
+    try {
+      return (await this.toolCrafter.craftPickaxeFor(block, this.state.area, this.signal)) !== null;
+    } catch (err) {
+      if (!isAborted(err)) throw err;
+      return false;
+    } finally {
+      this.setActivity(null);
+    }
+  }
+
+  /**
+   * Pause until a usable tool for `block` shows up in the inventory, or the
+   * user resumes. Returns false if the run was stopped while waiting.
+   */
+  private async waitForTool(block: Block, message: string): Promise<boolean> {
+    // Already paused by the user: check again once resumed
+    if (!this.isRunning()) return this.waitUntilReady();
+
+    this.machine.transition('paused', { kind: 'no_tool', message });
+    this.saveProgress();
+    this.eventBus.emit('mining:paused', 'no_tool');
+    log.warn(`${message}, pausing`);
+
+    while (this.machine.is('paused')) {
+      await this.sleep(1000);
+      if (this.toolSelector.hasUsableToolFor(block)) {
+        this.machine.transition(this.runStatus);
+        this.eventBus.emit('mining:resumed');
+        break;
+      }
+    }
+    return this.isRunning();
+  }
+
+  /**
+   * Sand or gravel resting on a dug target falls into its column, often onto
+   * positions the planner has already passed. Wait for it to land and dig
+   * it out before moving on.
+   */
+  private async reMineColumn(pos: Vec3, height: number): Promise<void> {
+    const area = this.state.area;
+    if (!area || !this.isInArea(pos, area)) return;
+
+    // Blocks falling in from above the area were never part of the total
+    this.state.totalBlocks += Math.max(0, Math.min(height, pos.y + height - area.max.y));
+
+    this.settlingColumn = true;
+    let mined = 0;
+    try {
+      // Each dig lets the rest of the column drop again
+      for (let i = 0; i <= height * 2; i++) {
+        await this.gravity.waitForLanding(pos);
+        if (this.gravity.isBuried()) {
+          log.warn('Buried by falling blocks, digging out');
+          await this.antiStuck.clearOverlapping(this.signal);
+        }
+
+        const landed = this.gravity.findLanded(pos, area.min.y);
+        if (!landed || this.machine.is('idle')) break;
+        if (await this.mineBlock(landed.position) !== 'mined') break;
+
+        mined++;
+        this.countMined();
+      }
+    } finally {
+      this.settlingColumn = false;
+    }
+
+    if (mined > 0) {
+      this.eventBus.emit('mining:gravity', pos.clone(), mined);
+      log.info(`Re-mined ${mined} fallen blocks at ${pos.x}, ${pos.z}`);
+    }
+  }
+
+  private failureReason(err: Error, pathFailed: boolean): FailureReason {
+    if (err.message === 'Dig timeout') return 'dig_timeout';
+    if (err.message === 'Block not visible after looking') {
+      return pathFailed ? 'path_timeout' : 'not_visible';
+    }
+    return 'dig_error';
+  }
+
+  private recordFailure(pos: Vec3, blockName: string, reason: FailureReason, attempts: number): void {
+    const key = this.posKey(pos);
+    const previous = this.failures.get(key);
+    const failure: BlockFailure = {
+      pos: { x: pos.x, y: pos.y, z: pos.z },
+      blockName,
+      reason,
+      attempts: (previous?.attempts ?? 0) + attempts,
+      retried: previous?.retried ?? false,
+      timestamp: Date.now(),
     };
+    this.failures.set(key, failure);
+
+    log.warn(`Failed to ${this.options.fill ? 'place' : 'mine'} ${blockName} at ${pos} (${reason})`);
+    this.eventBus.emit('mining:block-failed', failure);
+  }
+
+  private get status(): MiningStatus {
+    return this.machine.current;
+  }
+
+  private isRunning(): boolean {
+    return this.machine.is('mining', 'filling');
+  }
+
+  /**
+   * Set the sub-activity shown next to the status.
+   */
+  private setActivity(kind: MiningActivityKind | null, message = ''): void {
+    this.machine.setActivity(kind, message);
+  }
+
+  private countMined(): void {
+    this.state.minedBlocks++;
+    this.eventBus.emit('mining:progress', this.state.minedBlocks, this.state.totalBlocks);
+  }
+
+  private addRevisit(pos: Vec3): void {
+    this.revisit.set(this.posKey(pos), pos);
+  }
+
+  private posKey(pos: { x: number; y: number; z: number }): string {
+    return `${pos.x},${pos.y},${pos.z}`;
+  }
+
+  /**
+   * Mine the rest of the vein an ore at `origin` belonged to,
+   * then let the caller continue along the planned path.
+   */
+  private async mineVein(origin: Vec3, oreName: string): Promise<void> {
+    const area = this.state.area;
+    if (!area || !this.options.vein) return;
+
+    const vein = findVein(this.bot, origin, oreName, area, this.options.vein);
+    if (vein.length === 0) return;
+
+    log.info(`Following ${oreName} vein: ${vein.length} more blocks`);
+    this.miningVein = true;
+    let size = 1;
+
+    try {
+      for (const pos of vein) {
+        if (this.machine.is('idle')) break;
+        // Vein blocks are ore by construction; the job filter doesn't apply
+        if (await this.mineBlock(pos, undefined) !== 'mined') continue;
+
+        size++;
+        // Blocks outside the area were never part of the planned total
+        if (!this.isInArea(pos, area)) this.state.totalBlocks++;
+        this.countMined();
+      }
+    } finally {
+      this.miningVein = false;
+    }
+
+    this.eventBus.emit('mining:vein', origin, oreName, size);
+    log.success(`Vein done: ${size} ${oreName}`);
+  }
+
+  /**
+   * The job area, grown by the vein radius when veins may be followed past it.
+   */
+  private boundaryArea(area: NormalizedArea): NormalizedArea {
+    const r = this.options.vein?.radius ?? 0;
+    return { min: area.min.offset(-r, -r, -r), max: area.max.offset(r, r, r) };
+  }
+
+  private isInArea(pos: Vec3, area: NormalizedArea): boolean {
+    return inArea(area, pos) && (!this.options.shape || shapeContains(this.options.shape, pos));
+  }
+
+  private saveProgress(): void {
+    // A stopped or halted run must not write its progress back
+    if (!this.state.area || this.machine.is('idle')) return;
+    this.stateManager.save(
+      this.state.area,
+      {
+        positionIndex: this.positionIndex,
+        minedBlocks: this.state.minedBlocks,
+        revisit: this.getRevisitList(),
+        failures: this.getFailures(),
+      },
+      this.options,
+    );
+  }
+
+  /**
+   * Cancel walks, digs and chest trips in flight. Operations started
+   * afterwards get a fresh signal.
+   */
+  private cancelOperations(): void {
+    this.abort.abort();
+    this.abort = new AbortController();
+    this.antiStuck.cancel();
+  }
+
+  private get signal(): AbortSignal {
+    return this.abort.signal;
   }
 
-  private areaSize(area: NormalizedArea): number {
-    return (area.max.x - area.min.x + 1) *
-           (area.max.y - area.min.y + 1) *
-           (area.max.z - area.min.z + 1);
+  /**
+   * Visit the supply chest if something in the restock table is low. A pause
+   * or stop on the way ends the trip; the next check starts it over.
+   */
+  private async restock(): Promise<void> {
+    if (!this.restocker.shouldRestock()) return;
+
+    const status = this.status;
+    const previous = this.machine.currentActivity;
+    this.setActivity('restocking', 'Restocking from supply chest...');
+    try {
+      await this.restocker.restock(this.state.area, this.signal);
+    } catch (err) {
+      if (!isAborted(err)) throw err;
+    } finally {
+      // Back to e.g. healing; a pause or stop meanwhile has set its own activity
+      if (this.status === status) this.setActivity(previous?.kind ?? null, previous?.message);
+    }
+  }
+
+  /**
+   * Eat if hungry; a pause or stop while eating just ends the meal.
+   */
+  private async eat(threshold?: number): Promise<void> {
+    try {
+      await this.foodManager.eatIfNeeded(threshold, this.signal);
+    } catch (err) {
+      if (!isAborted(err)) throw err;
+    }
   }
 
+  /**
+   * Wait `ms`, waking early on stop or pause so loops notice at once.
+   */
   private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+    return sleep(ms, this.signal);
   }
 }
@@ -0,0 +1,78 @@
+import type { MiningActivity, MiningActivityKind, MiningStatus } from '../types.js';
+import type { BotEventBus } from '../core/event-bus.js';
+
+/**
+ * Statuses each status may move to. `idle` is reachable from everywhere:
+ * stopping always works.
+ */
+export const MINING_TRANSITIONS: Readonly<Record<MiningStatus, readonly MiningStatus[]>> = {
+  idle: ['mining', 'filling', 'traveling'],
+  mining: ['paused', 'finished', 'error', 'idle'],
+  filling: ['paused', 'finished', 'error', 'idle'],
+  paused: ['mining', 'filling', 'error', 'idle'],
+  traveling: ['error', 'idle'],
+  finished: ['mining', 'filling', 'traveling', 'idle'],
+  error: ['mining', 'filling', 'traveling', 'idle'],
+};
+
+/**
+ * A command that isn't valid in the current status, e.g. resume while idle.
+ */
+export class InvalidTransitionError extends Error {
+  constructor(
+    readonly from: MiningStatus,
+    readonly to: MiningStatus,
+    message = `Cannot go from ${from} to ${to}`,
+  ) {
+    super(message);
+    this.name = 'InvalidTransitionError';
+  }
+}
+
+/**
+ * Holds the engine's status and sub-activity. Every change goes through
+ * `transition()` and is announced as `mining:state-changed`.
+ */
+export class MiningStateMachine {
+  private status: MiningStatus = 'idle';
+  private activity: MiningActivity | null = null;
+
+  constructor(private eventBus: BotEventBus) {}
+
+  get current(): MiningStatus {
+    return this.status;
+  }
+
+  get currentActivity(): MiningActivity | null {
+    return this.activity;
+  }
+
+  is(...statuses: MiningStatus[]): boolean {
+    return statuses.includes(this.status);
+  }
+
+  can(to: MiningStatus): boolean {
+    return to === this.status || MINING_TRANSITIONS[this.status].includes(to);
+  }
+
+  /**
+   * Move to `to`, replacing the activity. Staying in the same status only
+   * updates the activity. Throws InvalidTransitionError for a move the table
+   * doesn't allow.
+   */
+  transition(to: MiningStatus, activity: MiningActivity | null = null, message?: string): void {
+    if (!this.can(to)) throw new InvalidTransitionError(this.status, to, message);
+
+    const from = this.status;
+    this.status = to;
+    this.activity = activity;
+    this.eventBus.emit('mining:state-changed', from, to, activity);
+  }
+
+  /**
+   * Change only the activity within the current status.
+   */
+  setActivity(kind: MiningActivityKind | null, message = ''): void {
+    this.transition(this.status, kind ? { kind, message } : null);
+  }
+}
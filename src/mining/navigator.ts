@@ -2,24 +2,56 @@ import type { Bot } from 'mineflayer';
 import { Vec3 } from 'vec3';
 import { goals, Movements } from 'mineflayer-pathfinder';
 import type { AdaptiveTimings } from '../network/adaptive-timings.js';
+import type { AppConfig } from '../core/config.js';
 import type { AntiStuck } from '../safety/anti-stuck.js';
+import type { ExclusionZones } from '../safety/exclusion-zones.js';
+import type { DigBoundary } from '../safety/dig-boundary.js';
+import { OperationAbortedError } from '../core/abort.js';
 import { createLogger } from '../core/logger.js';
 
-const { GoalNear, GoalXZ } = goals;
+const { GoalNear, GoalXZ, GoalPlaceBlock } = goals;
 const log = createLogger('Navigator');
 
+// Any neighbour may carry the placed block, as in the pathfinder's default
+const PLACE_FACES = [
+  new Vec3(0, -1, 0), new Vec3(0, 1, 0),
+  new Vec3(0, 0, -1), new Vec3(0, 0, 1), new Vec3(-1, 0, 0), new Vec3(1, 0, 0),
+];
+
+/**
+ * GoalPlaceBlock that accepts any facing. Its typings require one; after
+ * construction -1 means "any", as when the pathfinder is given none.
+ */
+class GoalPlaceFromAnySide extends GoalPlaceBlock {
+  constructor(pos: Vec3, world: Bot['world'], range: number) {
+    super(pos, world, { range, LOS: true, faces: PLACE_FACES, facing: 'north' });
+    this.options.facing = -1;
+  }
+}
+
 export class Navigator {
   private antiStuck: AntiStuck | null = null;
+  private exclusionZones: ExclusionZones | null = null;
+  private digBoundary: DigBoundary | null = null;
 
   constructor(
     private bot: Bot,
     private timings: AdaptiveTimings,
+    private config: AppConfig,
   ) {}
 
   setAntiStuck(antiStuck: AntiStuck): void {
     this.antiStuck = antiStuck;
   }
 
+  setExclusionZones(zones: ExclusionZones): void {
+    this.exclusionZones = zones;
+  }
+
+  setDigBoundary(boundary: DigBoundary): void {
+    this.digBoundary = boundary;
+  }
+
   /**
    * Configure pathfinder movements.
    */
@@ -29,7 +61,29 @@ export class Navigator {
     movements.allowSprinting = false;
     movements.allowParkour = false;
     movements.allowFreeMotion = false;
-    movements.scafoldingBlocks = [];
+    // Pillar up or bridge to targets out of reach; ScaffoldTracker removes them later
+    movements.scafoldingBlocks = this.config.fillerBlocks
+      .map(name => this.bot.registry.itemsByName[name]?.id)
+      .filter((id): id is number => id !== undefined);
+    movements.allow1by1towers = true;
+    // Evaluated per block while planning, so zone or boundary changes apply at once
+    movements.exclusionAreasBreak = [block => (this.mayDig(block.position) ? 0 : Infinity)];
+    this.bot.pathfinder.setMovements(movements);
+  }
+
+  /**
+   * Fill runs must not dig into what they have built; they may tower up
+   * with the block being placed.
+   */
+  configureForFilling(blockName: string): void {
+    const movements = new Movements(this.bot);
+    movements.canDig = false;
+    movements.allowSprinting = false;
+    movements.allowParkour = false;
+    movements.allowFreeMotion = false;
+    const item = this.bot.registry.itemsByName[blockName];
+    movements.scafoldingBlocks = item ? [item.id] : [];
+    movements.allow1by1towers = true;
     this.bot.pathfinder.setMovements(movements);
   }
 
@@ -42,28 +96,38 @@ export class Navigator {
     this.bot.pathfinder.setMovements(movements);
   }
 
+  // Every goto rejects with OperationAbortedError once `signal` aborts
+
   /**
    * Navigate to within `range` blocks of a position.
    */
-  async goNear(pos: Vec3, range = 2): Promise<void> {
+  async goNear(pos: Vec3, range = 2, signal?: AbortSignal): Promise<void> {
     const goal = new GoalNear(pos.x, pos.y, pos.z, range);
-    await this.gotoWithTimeout(goal, this.timings.pathfindTimeout);
+    await this.gotoWithTimeout(goal, this.timings.pathfindTimeout, signal);
+  }
+
+  /**
+   * Navigate to where a block can be placed at `pos` (never inside it).
+   */
+  async goToPlace(pos: Vec3, signal?: AbortSignal): Promise<void> {
+    const goal = new GoalPlaceFromAnySide(pos, this.bot.world, 4);
+    await this.gotoWithTimeout(goal, this.timings.pathfindTimeout, signal);
   }
 
   /**
    * Navigate to an XZ position (ignoring Y).
    */
-  async goToXZ(x: number, z: number): Promise<void> {
+  async goToXZ(x: number, z: number, signal?: AbortSignal): Promise<void> {
     const goal = new GoalXZ(x, z);
-    await this.gotoWithTimeout(goal, this.timings.navigationTimeout);
+    await this.gotoWithTimeout(goal, this.timings.navigationTimeout, signal);
   }
 
   /**
    * Navigate to a specific position with Y.
    */
-  async goTo(x: number, y: number, z: number, range = 2): Promise<void> {
+  async goTo(x: number, y: number, z: number, range = 2, signal?: AbortSignal): Promise<void> {
     const goal = new GoalNear(x, y, z, range);
-    await this.gotoWithTimeout(goal, this.timings.navigationTimeout);
+    await this.gotoWithTimeout(goal, this.timings.navigationTimeout, signal);
   }
 
   /**
@@ -74,16 +138,29 @@ export class Navigator {
     this.bot.clearControlStates();
   }
 
-  private gotoWithTimeout(goal: any, timeoutMs: number): Promise<void> {
+  private mayDig(pos: Vec3): boolean {
+    if (this.exclusionZones?.isProtected(pos)) return false;
+    return this.digBoundary?.allows(pos) ?? true;
+  }
+
+  private gotoWithTimeout(goal: any, timeoutMs: number, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) return Promise.reject(new OperationAbortedError());
+
     return new Promise((resolve, reject) => {
       let isDone = false;
       let stuckChecker: ReturnType<typeof setInterval> | null = null;
 
+      const onAbort = () => {
+        this.stop();
+        finish(new OperationAbortedError());
+      };
+
       const finish = (err?: Error) => {
         if (isDone) return;
         isDone = true;
         if (stuckChecker) clearInterval(stuckChecker);
         clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
         this.bot.clearControlStates();
         if (err) reject(err);
         else resolve();
@@ -101,7 +178,7 @@ export class Navigator {
           if (stuckMs >= 2000) {
             // Try clearing blocking blocks (especially diagonal ones)
             if (this.antiStuck && !this.antiStuck.isRecovering()) {
-              this.antiStuck.clearBlockingPath();
+              this.antiStuck.clearBlockingPath(signal);
             }
             this.bot.setControlState('jump', true);
             setTimeout(() => {
@@ -120,6 +197,8 @@ export class Navigator {
         finish(new Error('Path timeout'));
       }, timeoutMs);
 
+      signal?.addEventListener('abort', onAbort, { once: true });
+
       this.bot.pathfinder.goto(goal)
         .then(() => finish())
         .catch((err) => finish(err));
@@ -0,0 +1,53 @@
+import type { Vec3 } from 'vec3';
+import type { NormalizedArea } from '../types.js';
+import { zigzagPlanner } from './zigzag-planner.js';
+import { spiralPlanner } from './spiral-planner.js';
+import { chunkPlanner } from './chunk-planner.js';
+import { corridorPlanner } from './corridor-planner.js';
+
+/**
+ * A planned mining order, computed on demand.
+ * `at(i)` must be O(1) (or close to it) so a saved index can be resumed
+ * without walking the sequence, and no position list is ever materialized.
+ * `indexOf` is its inverse, -1 for positions outside the area.
+ */
+export interface PositionSequence {
+  readonly length: number;
+  at(index: number): Vec3;
+  indexOf(pos: { x: number; y: number; z: number }): number;
+}
+
+/**
+ * Decides the order in which the positions of an area are mined.
+ * Planners must be deterministic: a resume relies on the same area
+ * producing the same order, since only the index is saved.
+ */
+export interface MiningPlanner {
+  readonly name: string;
+  readonly description: string;
+  plan(area: NormalizedArea): PositionSequence;
+}
+
+export const DEFAULT_PLANNER = 'zigzag';
+
+const PLANNERS: Record<string, MiningPlanner> = {
+  [zigzagPlanner.name]: zigzagPlanner,
+  [spiralPlanner.name]: spiralPlanner,
+  [chunkPlanner.name]: chunkPlanner,
+  [corridorPlanner.name]: corridorPlanner,
+};
+
+/**
+ * Look up a planner by name (default zigzag). Throws on unknown names.
+ */
+export function getPlanner(name: string = DEFAULT_PLANNER): MiningPlanner {
+  const planner = PLANNERS[name];
+  if (!planner) {
+    throw new Error(`Unknown planner "${name}" (available: ${Object.keys(PLANNERS).join(', ')})`);
+  }
+  return planner;
+}
+
+export function listPlanners(): { name: string; description: string }[] {
+  return Object.values(PLANNERS).map(p => ({ name: p.name, description: p.description }));
+}
@@ -0,0 +1,75 @@
+import type { Bot } from 'mineflayer';
+import type { Vec3 } from 'vec3';
+import type { Block } from 'prismarine-block';
+import type { AppConfig } from '../core/config.js';
+import { createLogger } from '../core/logger.js';
+
+const log = createLogger('Scaffold');
+
+const AIR = new Set(['air', 'cave_air', 'void_air']);
+
+/**
+ * Records the filler blocks the pathfinder places to pillar or bridge during
+ * a run, so they can be removed afterwards. Only the bot's own `placeBlock`
+ * calls count; blocks from players, mobs or falling sand never do. Seals
+ * placed into liquids by the LiquidGuard replace water or lava, not air,
+ * and are left alone.
+ */
+export class ScaffoldTracker {
+  private placed = new Map<string, Vec3>();
+  /** The bot's own placeBlock, while wrapped */
+  private placeBlock: Bot['placeBlock'] | null = null;
+
+  constructor(
+    private bot: Bot,
+    private config: AppConfig,
+  ) {}
+
+  start(): void {
+    this.stop();
+    this.placed.clear();
+
+    // The pathfinder looks placeBlock up on the bot for every block it places
+    const placeBlock = this.bot.placeBlock;
+    this.placeBlock = placeBlock;
+    this.bot.placeBlock = async (referenceBlock: Block, faceVector: Vec3) => {
+      const pos = referenceBlock.position.plus(faceVector);
+      const before = this.bot.blockAt(pos);
+      try {
+        await placeBlock.call(this.bot, referenceBlock, faceVector);
+      } finally {
+        // Checked even on a rejection: it may only mean the update came late
+        const after = this.bot.blockAt(pos);
+        if (before && AIR.has(before.name) && after && this.config.fillerBlocks.includes(after.name)) {
+          this.placed.set(`${pos.x},${pos.y},${pos.z}`, pos);
+        }
+      }
+    };
+  }
+
+  stop(): void {
+    if (this.placeBlock) {
+      this.bot.placeBlock = this.placeBlock;
+      this.placeBlock = null;
+    }
+  }
+
+  /**
+   * Placed blocks that are still standing, highest first so pillars are
+   * taken down from the top.
+   */
+  remaining(): Vec3[] {
+    const standing = [...this.placed.values()].filter(pos => {
+      const block = this.bot.blockAt(pos);
+      return !block || this.config.fillerBlocks.includes(block.name);
+    });
+    if (standing.length < this.placed.size) {
+      log.debug(`${this.placed.size - standing.length} scaffold blocks already gone`);
+    }
+    return standing.sort((a, b) => b.y - a.y);
+  }
+
+  forget(pos: Vec3): void {
+    this.placed.delete(`${pos.x},${pos.y},${pos.z}`);
+  }
+}
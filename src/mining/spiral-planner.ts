@@ -0,0 +1,74 @@
+import { Vec3 } from 'vec3';
+import type { NormalizedArea } from '../types.js';
+import type { MiningPlanner, PositionSequence } from './planner.js';
+import { inArea } from './area-utils.js';
+
+/**
+ * Plans mining positions in an inward spiral.
+ * Goes top-to-bottom (Y); each layer is walked ring by ring from the
+ * outer edge toward the center, so the walls are cut first.
+ */
+export function planSpiral(area: NormalizedArea): PositionSequence {
+  const width = area.max.x - area.min.x + 1;
+  const depth = area.max.z - area.min.z + 1;
+  const layerSize = width * depth;
+  const half = Math.floor((Math.min(width, depth) - 1) / 2);
+
+  // Cells in the rings outside ring k
+  const cellsBefore = (k: number) => 2 * k * (width + depth) - 4 * k * k;
+
+  // Largest k with cellsBefore(k) <= offset, from the quadratic's smaller root
+  const ringOf = (offset: number) => {
+    const s = width + depth;
+    let k = Math.floor((s - Math.sqrt(s * s - 4 * offset)) / 4);
+    k = Math.max(0, Math.min(k, half));
+    while (k > 0 && cellsBefore(k) > offset) k--;
+    while (k < half && cellsBefore(k + 1) <= offset) k++;
+    return k;
+  };
+
+  return {
+    length: layerSize * (area.max.y - area.min.y + 1),
+    at(index: number): Vec3 {
+      const y = area.max.y - Math.floor(index / layerSize);
+      const inLayer = index % layerSize;
+
+      const k = ringOf(inLayer);
+      const x0 = area.min.x + k, x1 = area.max.x - k;
+      const z0 = area.min.z + k, z1 = area.max.z - k;
+      const w = x1 - x0 + 1, d = z1 - z0 + 1;
+      let o = inLayer - cellsBefore(k);
+
+      // Near edge, far side, far edge (backwards), near side (backwards)
+      if (o < w) return new Vec3(x0 + o, y, z0);
+      o -= w;
+      if (o < d - 1) return new Vec3(x1, y, z0 + 1 + o);
+      o -= d - 1;
+      if (o < w - 1) return new Vec3(x1 - 1 - o, y, z1);
+      o -= w - 1;
+      return new Vec3(x0, y, z1 - 1 - o);
+    },
+    indexOf(pos) {
+      if (!inArea(area, pos)) return -1;
+      const k = Math.min(pos.x - area.min.x, area.max.x - pos.x, pos.z - area.min.z, area.max.z - pos.z);
+      const x0 = area.min.x + k, x1 = area.max.x - k;
+      const z0 = area.min.z + k, z1 = area.max.z - k;
+      const w = x1 - x0 + 1, d = z1 - z0 + 1;
+
+      // Same four legs as at(), checked in the same order
+      let o: number;
+      if (pos.z === z0) o = pos.x - x0;
+      else if (pos.x === x1) o = w + (pos.z - z0 - 1);
+      else if (pos.z === z1) o = w + (d - 1) + (x1 - 1 - pos.x);
+      else o = w + (d - 1) + (w - 1) + (z1 - 1 - pos.z);
+
+      return (area.max.y - pos.y) * layerSize + cellsBefore(k) + o;
+    },
+  };
+}
+
+export const spiralPlanner: MiningPlanner = {
+  name: 'spiral',
+  description: 'Layer by layer from the top, spiralling from the edges inward',
+  plan: planSpiral,
+};
@@ -1,21 +1,35 @@
 import fs from 'fs';
-import type { NormalizedArea, SavedMiningState } from '../types.js';
+import type { MiningOptions, MiningProgress, NormalizedArea, SavedJob, SavedMiningState } from '../types.js';
+import { serializeArea } from './area-utils.js';
 import { createLogger } from '../core/logger.js';
 
 const log = createLogger('State');
-const STATE_FILE = 'mining_state.json';
 
+/**
+ * Persists the current run and the job queue. With several bots each one
+ * passes its id and gets its own pair of files.
+ */
 export class StateManager {
-  save(area: NormalizedArea, minedBlocks: number): void {
+  private stateFile: string;
+  private jobsFile: string;
+
+  constructor(botId?: string) {
+    const suffix = botId ? `.${botId}` : '';
+    this.stateFile = `mining_state${suffix}.json`;
+    this.jobsFile = `mining_jobs${suffix}.json`;
+  }
+
+  save(area: NormalizedArea, progress: MiningProgress, options: MiningOptions = {}): void {
     const data: SavedMiningState = {
-      area: {
-        min: { x: area.min.x, y: area.min.y, z: area.min.z },
-        max: { x: area.max.x, y: area.max.y, z: area.max.z },
-      },
-      minedBlocks,
+      area: serializeArea(area),
+      minedBlocks: progress.minedBlocks,
+      positionIndex: progress.positionIndex,
+      revisit: progress.revisit,
+      failures: progress.failures,
+      options,
     };
     try {
-      fs.writeFileSync(STATE_FILE, JSON.stringify(data));
+      fs.writeFileSync(this.stateFile, JSON.stringify(data));
     } catch (err: any) {
       log.error(`Failed to save state: ${err.message}`);
     }
@@ -23,8 +37,8 @@ export class StateManager {
 
   load(): SavedMiningState | null {
     try {
-      if (!fs.existsSync(STATE_FILE)) return null;
-      const raw = fs.readFileSync(STATE_FILE, 'utf8');
+      if (!fs.existsSync(this.stateFile)) return null;
+      const raw = fs.readFileSync(this.stateFile, 'utf8');
       return JSON.parse(raw) as SavedMiningState;
     } catch (err: any) {
       log.error(`Failed to load state: ${err.message}`);
@@ -32,13 +46,48 @@ export class StateManager {
     }
   }
 
+  /**
+   * Progress stored in a saved state, accounting for the older format.
+   */
+  static progressOf(saved: SavedMiningState): MiningProgress {
+    return {
+      positionIndex: saved.positionIndex ?? saved.minedBlocks,
+      minedBlocks: saved.minedBlocks,
+      revisit: saved.revisit ?? [],
+      failures: saved.failures ?? [],
+    };
+  }
+
   clear(): void {
     try {
-      if (fs.existsSync(STATE_FILE)) fs.unlinkSync(STATE_FILE);
+      if (fs.existsSync(this.stateFile)) fs.unlinkSync(this.stateFile);
     } catch {}
   }
 
   hasState(): boolean {
-    return fs.existsSync(STATE_FILE);
+    return fs.existsSync(this.stateFile);
+  }
+
+  // ─── Job queue ───
+  // Kept in its own file: the queue outlives individual runs, while
+  // the mining state above is cleared whenever a run completes.
+
+  saveJobs(jobs: SavedJob[]): void {
+    try {
+      fs.writeFileSync(this.jobsFile, JSON.stringify(jobs));
+    } catch (err: any) {
+      log.error(`Failed to save job queue: ${err.message}`);
+    }
+  }
+
+  loadJobs(): SavedJob[] {
+    try {
+      if (!fs.existsSync(this.jobsFile)) return [];
+      const raw = fs.readFileSync(this.jobsFile, 'utf8');
+      return JSON.parse(raw) as SavedJob[];
+    } catch (err: any) {
+      log.error(`Failed to load job queue: ${err.message}`);
+      return [];
+    }
   }
 }
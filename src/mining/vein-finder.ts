@@ -0,0 +1,63 @@
+import type { Bot } from 'mineflayer';
+import type { Vec3 } from 'vec3';
+import type { NormalizedArea, VeinOptions } from '../types.js';
+
+export const DEFAULT_VEIN_OPTIONS: VeinOptions = { radius: 6, maxBlocks: 64 };
+
+/**
+ * Deepslate and regular variants of an ore belong to the same vein.
+ */
+function oreFamily(name: string): string {
+  return name.startsWith('deepslate_') ? name.slice('deepslate_'.length) : name;
+}
+
+/**
+ * Flood-fill the vein connected to `origin` (including diagonals).
+ * Only blocks inside the job area grown by `options.radius` are followed.
+ * Returned positions exclude `origin` and are ordered nearest-first.
+ */
+export function findVein(
+  bot: Bot,
+  origin: Vec3,
+  oreName: string,
+  area: NormalizedArea,
+  options: VeinOptions,
+): Vec3[] {
+  const family = oreFamily(oreName);
+  const r = options.radius;
+  const inBounds = (p: Vec3) =>
+    p.x >= area.min.x - r && p.x <= area.max.x + r &&
+    p.y >= area.min.y - r && p.y <= area.max.y + r &&
+    p.z >= area.min.z - r && p.z <= area.max.z + r;
+
+  const key = (p: Vec3) => `${p.x},${p.y},${p.z}`;
+  const seen = new Set<string>([key(origin)]);
+  const queue: Vec3[] = [origin];
+  const vein: Vec3[] = [];
+
+  while (queue.length > 0 && vein.length < options.maxBlocks) {
+    const current = queue.shift()!;
+
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dz = -1; dz <= 1; dz++) {
+          if (dx === 0 && dy === 0 && dz === 0) continue;
+          const next = current.offset(dx, dy, dz);
+          const k = key(next);
+          if (seen.has(k)) continue;
+          seen.add(k);
+
+          if (!inBounds(next)) continue;
+          const block = bot.blockAt(next);
+          if (!block || oreFamily(block.name) !== family) continue;
+
+          vein.push(next);
+          queue.push(next);
+          if (vein.length >= options.maxBlocks) return vein;
+        }
+      }
+    }
+  }
+
+  return vein;
+}
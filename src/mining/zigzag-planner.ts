@@ -1,29 +1,40 @@
 import { Vec3 } from 'vec3';
 import type { NormalizedArea } from '../types.js';
+import type { MiningPlanner, PositionSequence } from './planner.js';
+import { inArea } from './area-utils.js';
 
 /**
- * Generates mining positions in a zigzag pattern.
+ * Plans mining positions in a zigzag pattern.
  * Goes top-to-bottom (Y), alternating X direction per Z row.
  * This ensures the bot moves efficiently without backtracking.
  */
-export function generateZigzagPositions(area: NormalizedArea): Vec3[] {
-  const positions: Vec3[] = [];
+export function planZigzag(area: NormalizedArea): PositionSequence {
+  const width = area.max.x - area.min.x + 1;
+  const depth = area.max.z - area.min.z + 1;
+  const layerSize = width * depth;
 
-  for (let y = area.max.y; y >= area.min.y; y--) {
-    let reverseX = false;
-    for (let z = area.min.z; z <= area.max.z; z++) {
-      if (reverseX) {
-        for (let x = area.max.x; x >= area.min.x; x--) {
-          positions.push(new Vec3(x, y, z));
-        }
-      } else {
-        for (let x = area.min.x; x <= area.max.x; x++) {
-          positions.push(new Vec3(x, y, z));
-        }
-      }
-      reverseX = !reverseX;
-    }
-  }
-
-  return positions;
+  return {
+    length: layerSize * (area.max.y - area.min.y + 1),
+    at(index: number): Vec3 {
+      const y = area.max.y - Math.floor(index / layerSize);
+      const inLayer = index % layerSize;
+      const row = Math.floor(inLayer / width);
+      const col = inLayer % width;
+      // Every other row runs backwards; the pattern restarts each layer
+      const x = row % 2 === 1 ? area.max.x - col : area.min.x + col;
+      return new Vec3(x, y, area.min.z + row);
+    },
+    indexOf(pos) {
+      if (!inArea(area, pos)) return -1;
+      const row = pos.z - area.min.z;
+      const col = row % 2 === 1 ? area.max.x - pos.x : pos.x - area.min.x;
+      return (area.max.y - pos.y) * layerSize + row * width + col;
+    },
+  };
 }
+
+export const zigzagPlanner: MiningPlanner = {
+  name: 'zigzag',
+  description: 'Layer by layer from the top, snaking along X',
+  plan: planZigzag,
+};
@@ -34,6 +34,12 @@ export class AdaptiveTimings {
     return 2;
   }
 
+  /** How long to wait for falling sand/gravel to land */
+  get gravitySettleTimeout(): number {
+    const tpsFactor = 20 / Math.max(1, this.tps);
+    return Math.min(Math.round((2000 + this.ping * 2) * tpsFactor), 10000);
+  }
+
   /** Delay between mining iterations (ms) */
   get interBlockDelay(): number {
     return Math.min(Math.round(Math.max(0, (this.ping - 50) * 0.4)), 200);
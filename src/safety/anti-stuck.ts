@@ -3,7 +3,10 @@ import { Vec3 } from 'vec3';
 import type { Block } from 'prismarine-block';
 import type { BotEventBus } from '../core/event-bus.js';
 import type { AdaptiveTimings } from '../network/adaptive-timings.js';
-import { ToolSelector } from '../inventory/tool-selector.js';
+import type { ToolSelector } from '../inventory/tool-selector.js';
+import type { ExclusionZones } from './exclusion-zones.js';
+import type { DigBoundary } from './dig-boundary.js';
+import { OperationAbortedError, isAborted, sleep, throwIfAborted } from '../core/abort.js';
 import { createLogger } from '../core/logger.js';
 
 const log = createLogger('AntiStuck');
@@ -17,10 +20,14 @@ export class AntiStuck {
   private timings: AdaptiveTimings;
   private eventBus: BotEventBus;
   private toolSelector: ToolSelector;
+  private exclusionZones: ExclusionZones | null = null;
+  private digBoundary: DigBoundary | null = null;
 
   private active = false;
   private _recovering = false;
   private tickListener: (() => void) | null = null;
+  /** Aborted by cancel(); a recovery in progress stops at its next step */
+  private abort = new AbortController();
   private stallInterval: ReturnType<typeof setInterval> | null = null;
 
   // Physics
@@ -61,15 +68,23 @@ export class AntiStuck {
     loops: 0,
   };
 
-  constructor(bot: Bot, timings: AdaptiveTimings, eventBus: BotEventBus) {
+  constructor(bot: Bot, timings: AdaptiveTimings, eventBus: BotEventBus, toolSelector: ToolSelector) {
     this.bot = bot;
     this.timings = timings;
     this.eventBus = eventBus;
-    this.toolSelector = new ToolSelector(bot);
+    this.toolSelector = toolSelector;
   }
 
   // ─── Public API ───
 
+  setExclusionZones(zones: ExclusionZones): void {
+    this.exclusionZones = zones;
+  }
+
+  setDigBoundary(boundary: DigBoundary): void {
+    this.digBoundary = boundary;
+  }
+
   enable(): void {
     if (this.active) return;
     this.active = true;
@@ -84,6 +99,7 @@ export class AntiStuck {
   disable(): void {
     if (!this.active) return;
     this.active = false;
+    this.cancel();
 
     this.restorePhysics();
     this.stopTickMonitor();
@@ -98,6 +114,14 @@ export class AntiStuck {
     log.info('Protection system deactivated');
   }
 
+  /**
+   * Stop whatever recovery or clearing is running now; later ones run normally.
+   */
+  cancel(): void {
+    this.abort.abort();
+    this.abort = new AbortController();
+  }
+
   isEnabled(): boolean { return this.active; }
   isRecovering(): boolean { return this._recovering; }
 
@@ -116,17 +140,22 @@ export class AntiStuck {
     }
   }
 
-  async clearOverlapping(): Promise<void> {
-    const overlapping = this.getOverlappingBlocks();
-    for (const b of overlapping) {
-      if (!this.toolSelector.shouldMine(b)) continue;
-      await this.safeDig(b);
-      await this.waitTicks(2);
+  async clearOverlapping(signal?: AbortSignal): Promise<void> {
+    const cancelled = this.withCancel(signal);
+    try {
+      const overlapping = this.getOverlappingBlocks();
+      for (const b of overlapping) {
+        if (!this.toolSelector.shouldMine(b)) continue;
+        await this.safeDig(b, cancelled);
+        await this.waitTicks(2);
+      }
+    } catch (err) {
+      if (!isAborted(err)) throw err;
     }
   }
 
   async forceClearArea(): Promise<void> {
-    await this.recoverLevel3_clearSpace();
+    await this.recoverLevel3_clearSpace(this.abort.signal);
   }
 
   getOverlappingBlocks(): Block[] {
@@ -256,17 +285,18 @@ export class AntiStuck {
    * Clear blocks that are blocking the bot's movement path.
    * Especially effective for diagonal stuck situations.
    */
-  async clearBlockingPath(): Promise<boolean> {
+  async clearBlockingPath(signal?: AbortSignal): Promise<boolean> {
     if (this._recovering) return false;
 
     const blocking = this.getBlockingBlocks();
     if (blocking.length === 0) return false;
 
+    const cancelled = this.withCancel(signal);
     this._recovering = true;
     try {
       log.info(`Clearing ${blocking.length} blocking blocks in path`);
       for (const block of blocking) {
-        await this.safeDig(block);
+        await this.safeDig(block, cancelled);
         await this.waitTicks(2);
       }
       return true;
@@ -471,6 +501,7 @@ export class AntiStuck {
     if (now - this.lastRecoveryTime < this.timings.recoveryCooldown) return;
 
     this._recovering = true;
+    const signal = this.abort.signal;
     this.lastRecoveryTime = now;
     this.stats.totalRecoveries++;
     this.consecutiveStucks++;
@@ -486,15 +517,16 @@ export class AntiStuck {
       this.eventBus.emit('safety:stuck', this.recoveryLevel, reason);
 
       switch (this.recoveryLevel) {
-        case 0: await this.recoverLevel0_jump(); break;
-        case 1: await this.recoverLevel1_jumpAndMove(); break;
-        case 2: await this.recoverLevel2_digOverlapping(); break;
-        case 3: await this.recoverLevel3_clearSpace(); break;
-        case 4: await this.recoverLevel4_digUp(); break;
-        default: await this.recoverLevel5_emergency(); break;
+        case 0: await this.recoverLevel0_jump(signal); break;
+        case 1: await this.recoverLevel1_jumpAndMove(signal); break;
+        case 2: await this.recoverLevel2_digOverlapping(signal); break;
+        case 3: await this.recoverLevel3_clearSpace(signal); break;
+        case 4: await this.recoverLevel4_digUp(signal); break;
+        default: await this.recoverLevel5_emergency(signal); break;
       }
 
-      await this.sleep(300);
+      await sleep(300, signal);
+      throwIfAborted(signal);
       const stillStuck = this.getOverlappingBlocks().length > 0 || this.getBlockingBlocks().length > 0;
 
       if (stillStuck) {
@@ -505,6 +537,11 @@ export class AntiStuck {
         this.eventBus.emit('safety:unstuck');
       }
     } catch (err: any) {
+      if (isAborted(err)) {
+        this.bot.clearControlStates();
+        log.debug('Recovery cancelled');
+        return;
+      }
       log.error(`Recovery error: ${err.message}`);
       this.recoveryLevel = Math.min(this.recoveryLevel + 1, MAX_RECOVERY_LEVEL);
     } finally {
@@ -514,26 +551,26 @@ export class AntiStuck {
 
   // ─── Recovery Levels ───
 
-  private async recoverLevel0_jump(): Promise<void> {
+  private async recoverLevel0_jump(signal: AbortSignal): Promise<void> {
     // Clear blocking blocks in movement direction (handles diagonal stuck)
     const blocking = this.getBlockingBlocks();
     for (const block of blocking) {
-      await this.safeDig(block);
+      await this.safeDig(block, signal);
     }
 
     this.bot.setControlState('jump', true);
-    await this.sleep(300);
+    await sleep(300, signal);
     this.bot.setControlState('jump', false);
   }
 
-  private async recoverLevel1_jumpAndMove(): Promise<void> {
+  private async recoverLevel1_jumpAndMove(signal: AbortSignal): Promise<void> {
     if (!this.bot.entity) return;
     const botPos = this.bot.entity.position;
 
     // Dig all blocking blocks in movement path (including diagonal neighbors)
     const blocking = this.getBlockingBlocks();
     for (const block of blocking) {
-      await this.safeDig(block);
+      await this.safeDig(block, signal);
       await this.waitTicks(1);
     }
 
@@ -541,13 +578,13 @@ export class AntiStuck {
     const overlapping = this.getOverlappingBlocks();
     for (const block of overlapping) {
       if (!this.toolSelector.shouldMine(block)) continue;
-      await this.safeDig(block);
+      await this.safeDig(block, signal);
     }
 
     // Jump forward in movement direction
     this.bot.setControlState('forward', true);
     this.bot.setControlState('jump', true);
-    await this.sleep(400);
+    await sleep(400, signal);
     this.bot.clearControlStates();
 
     // Fallback: if still overlapping a block, escape away from it
@@ -566,25 +603,25 @@ export class AntiStuck {
         } catch {}
         this.bot.setControlState('jump', true);
         this.bot.setControlState('forward', true);
-        await this.sleep(300);
+        await sleep(300, signal);
         this.bot.clearControlStates();
       }
     }
   }
 
-  private async recoverLevel2_digOverlapping(): Promise<void> {
+  private async recoverLevel2_digOverlapping(signal: AbortSignal): Promise<void> {
     this.bot.setControlState('jump', true);
-    await this.sleep(200);
+    await sleep(200, signal);
     this.bot.setControlState('jump', false);
 
     const overlapping = this.getOverlappingBlocks();
     for (const block of overlapping) {
       if (!this.toolSelector.shouldMine(block)) continue;
-      await this.safeDig(block);
+      await this.safeDig(block, signal);
     }
   }
 
-  private async recoverLevel3_clearSpace(): Promise<void> {
+  private async recoverLevel3_clearSpace(signal: AbortSignal): Promise<void> {
     if (!this.bot.entity) return;
     const center = this.bot.entity.position.floored();
 
@@ -594,36 +631,36 @@ export class AntiStuck {
           const pos = center.offset(dx, dy, dz);
           const block = this.bot.blockAt(pos);
           if (block && block.boundingBox === 'block' && this.toolSelector.shouldMine(block)) {
-            await this.safeDig(block);
+            await this.safeDig(block, signal);
           }
         }
       }
     }
 
     this.bot.setControlState('jump', true);
-    await this.sleep(300);
+    await sleep(300, signal);
     this.bot.setControlState('jump', false);
   }
 
-  private async recoverLevel4_digUp(): Promise<void> {
+  private async recoverLevel4_digUp(signal: AbortSignal): Promise<void> {
     if (!this.bot.entity) return;
     const pos = this.bot.entity.position.floored();
 
-    await this.recoverLevel3_clearSpace();
+    await this.recoverLevel3_clearSpace(signal);
 
     for (let dy = 2; dy <= 4; dy++) {
       const above = this.bot.blockAt(pos.offset(0, dy, 0));
       if (above && above.boundingBox === 'block' && this.toolSelector.shouldMine(above)) {
-        await this.safeDig(above);
+        await this.safeDig(above, signal);
       }
     }
 
     this.bot.setControlState('jump', true);
-    await this.sleep(500);
+    await sleep(500, signal);
     this.bot.setControlState('jump', false);
   }
 
-  private async recoverLevel5_emergency(): Promise<void> {
+  private async recoverLevel5_emergency(signal: AbortSignal): Promise<void> {
     log.error('EMERGENCY RECOVERY');
     if (!this.bot.entity) return;
     const pos = this.bot.entity.position.floored();
@@ -635,14 +672,14 @@ export class AntiStuck {
           const blockPos = pos.offset(dx, dy, dz);
           const block = this.bot.blockAt(blockPos);
           if (block && block.boundingBox === 'block' && block.name !== 'bedrock') {
-            await this.safeDig(block);
+            await this.safeDig(block, signal);
           }
         }
       }
     }
 
     this.bot.setControlState('jump', true);
-    await this.sleep(500);
+    await sleep(500, signal);
     this.bot.clearControlStates();
 
     try { this.bot.pathfinder.stop(); } catch {}
@@ -653,38 +690,64 @@ export class AntiStuck {
 
   // ─── Utilities ───
 
-  private async safeDig(block: Block): Promise<boolean> {
+  /**
+   * Dig one block for a recovery. Resolves false when the dig fails or times
+   * out; rejects with OperationAbortedError once `signal` aborts.
+   */
+  private async safeDig(block: Block, signal: AbortSignal): Promise<boolean> {
+    throwIfAborted(signal);
+    const zone = this.exclusionZones?.zoneAt(block.position);
+    if (zone) {
+      log.warn(`Refusing to dig ${block.name} at ${block.position}: inside zone ${zone.name}`);
+      return false;
+    }
+    if (this.digBoundary && !this.digBoundary.check(block.position, 'anti-stuck')) return false;
+
     try {
-      await this.toolSelector.equipFor(block);
-      return await new Promise<boolean>((resolve) => {
+      // Getting free matters more than the drop
+      await this.toolSelector.equipFor(block, false);
+      return await new Promise<boolean>((resolve, reject) => {
         let done = false;
 
-        const timer = setTimeout(() => {
+        const onAbort = () => {
           if (done) return;
           done = true;
+          clearTimeout(timer);
           try { this.bot.stopDigging(); } catch {}
-          resolve(false);
+          reject(new OperationAbortedError());
+        };
+        const settle = (result: boolean) => {
+          if (done) return;
+          done = true;
+          clearTimeout(timer);
+          signal.removeEventListener('abort', onAbort);
+          resolve(result);
+        };
+
+        const timer = setTimeout(() => {
+          if (done) return;
+          try { this.bot.stopDigging(); } catch {}
+          settle(false);
         }, this.timings.safedigTimeout);
 
+        signal.addEventListener('abort', onAbort, { once: true });
         this.bot.dig(block)
-          .then(() => {
-            if (done) return;
-            done = true;
-            clearTimeout(timer);
-            resolve(true);
-          })
-          .catch(() => {
-            if (done) return;
-            done = true;
-            clearTimeout(timer);
-            resolve(false);
-          });
+          .then(() => settle(true))
+          .catch(() => settle(false));
       });
-    } catch {
+    } catch (err) {
+      if (isAborted(err)) throw err;
       return false;
     }
   }
 
+  /**
+   * The recovery signal, also aborted by the caller's own signal if given.
+   */
+  private withCancel(signal?: AbortSignal): AbortSignal {
+    return signal ? AbortSignal.any([this.abort.signal, signal]) : this.abort.signal;
+  }
+
   private async waitTicks(ticks: number): Promise<void> {
     return new Promise((resolve) => {
       let count = 0;
@@ -698,8 +761,4 @@ export class AntiStuck {
       this.bot.on('physicTick', handler);
     });
   }
-
-  private sleep(ms: number): Promise<void> {
-    return new Promise((r) => setTimeout(r, ms));
-  }
 }
@@ -0,0 +1,103 @@
+import { Vec3 } from 'vec3';
+import type { NormalizedArea } from '../types.js';
+import type { AppConfig } from '../core/config.js';
+import { inArea } from '../mining/area-utils.js';
+import { createLogger } from '../core/logger.js';
+
+const log = createLogger('Boundary');
+
+type Point = { x: number; y: number; z: number };
+
+/**
+ * Limits digging to the job area plus an access corridor running from where
+ * the bot stood at job start to the nearest point of the area.
+ * Only active with config.digBoundary and while a job is set.
+ */
+export class DigBoundary {
+  private area: NormalizedArea | null = null;
+  private corridor: { from: Vec3; to: Vec3 } | null = null;
+  /** Outside positions the bot may still dig, e.g. its own scaffolding */
+  private permitted = new Set<string>();
+
+  constructor(private config: AppConfig) {}
+
+  /**
+   * Start enforcing the boundary for a job. `entry` is the bot's position.
+   */
+  setJob(area: NormalizedArea, entry: Vec3 | null): void {
+    if (!this.config.digBoundary) return;
+    this.area = area;
+    this.permitted.clear();
+
+    if (entry) {
+      const from = entry.floored();
+      const to = new Vec3(
+        clamp(from.x, area.min.x, area.max.x),
+        clamp(from.y, area.min.y, area.max.y),
+        clamp(from.z, area.min.z, area.max.z),
+      );
+      this.corridor = { from, to };
+      log.info(`Digging limited to the job area and a corridor from ${from} to ${to}`);
+    } else {
+      this.corridor = null;
+      log.info('Digging limited to the job area');
+    }
+  }
+
+  clear(): void {
+    this.area = null;
+    this.corridor = null;
+    this.permitted.clear();
+  }
+
+  /**
+   * Allow digging one position outside the boundary for the rest of the job.
+   */
+  permit(pos: Point): void {
+    if (this.area) this.permitted.add(`${pos.x},${pos.y},${pos.z}`);
+  }
+
+  isActive(): boolean {
+    return this.area !== null;
+  }
+
+  /**
+   * Whether the block at `pos` may be dug. Always true when inactive.
+   */
+  allows(pos: Point): boolean {
+    if (!this.area) return true;
+    if (inArea(this.area, pos)) return true;
+    if (this.permitted.has(`${pos.x},${pos.y},${pos.z}`)) return true;
+    // Headroom: the block above a corridor block is part of the corridor too
+    return this.inCorridor(pos) || this.inCorridor({ x: pos.x, y: pos.y - 1, z: pos.z });
+  }
+
+  /**
+   * `allows()` for an actual dig: a refusal is logged with who asked.
+   */
+  check(pos: Point, requester: string): boolean {
+    if (this.allows(pos)) return true;
+    log.warn(`Refused ${requester} dig at ${pos.x}, ${pos.y}, ${pos.z}: outside job boundary`);
+    return false;
+  }
+
+  // ─── Private ───
+
+  private inCorridor(pos: Point): boolean {
+    if (!this.corridor) return false;
+    const { from, to } = this.corridor;
+
+    // Distance from the block centre to the from→to segment (also through centres)
+    const d = to.minus(from);
+    const p = new Vec3(pos.x - from.x, pos.y - from.y, pos.z - from.z);
+    const lengthSq = d.x * d.x + d.y * d.y + d.z * d.z;
+    const t = lengthSq === 0 ? 0 : clamp((p.x * d.x + p.y * d.y + p.z * d.z) / lengthSq, 0, 1);
+    const dist = p.minus(d.scaled(t)).norm();
+
+    return dist <= this.config.accessCorridorWidth + 0.5;
+  }
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
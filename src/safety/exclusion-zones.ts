@@ -0,0 +1,92 @@
+import fs from 'fs';
+import { randomUUID } from 'crypto';
+import type { Area, ExclusionZone } from '../types.js';
+import { normalizeArea, serializeArea } from '../mining/area-utils.js';
+import { createLogger } from '../core/logger.js';
+
+const log = createLogger('Zones');
+const ZONES_FILE = 'exclusion_zones.json';
+
+type Point = { x: number; y: number; z: number };
+
+/**
+ * Named boxes the bot must never dig into, whatever the job says.
+ * Checked by the engine, the pathfinder and anti-stuck recovery digging.
+ */
+export class ExclusionZones {
+  private zones: ExclusionZone[] = [];
+
+  constructor() {
+    this.zones = this.load();
+    if (this.zones.length > 0) {
+      log.info(`Loaded ${this.zones.length} exclusion zones`);
+    }
+  }
+
+  // ─── Public API ───
+
+  list(): ExclusionZone[] {
+    return this.zones.map(z => ({ ...z }));
+  }
+
+  add(name: string, area: Area): ExclusionZone {
+    const zone: ExclusionZone = {
+      id: randomUUID().slice(0, 8),
+      name,
+      ...serializeArea(normalizeArea(area)),
+      createdAt: Date.now(),
+    };
+    this.zones.push(zone);
+    this.save();
+    log.info(`Added zone ${zone.name} (${zone.id})`);
+    return zone;
+  }
+
+  /**
+   * Returns false if no zone has that id.
+   */
+  remove(id: string): boolean {
+    const index = this.zones.findIndex(z => z.id === id);
+    if (index < 0) return false;
+
+    const [zone] = this.zones.splice(index, 1);
+    this.save();
+    log.info(`Removed zone ${zone.name} (${zone.id})`);
+    return true;
+  }
+
+  /**
+   * The zone covering a block position, if any.
+   */
+  zoneAt(pos: Point): ExclusionZone | null {
+    return this.zones.find(z =>
+      pos.x >= z.min.x && pos.x <= z.max.x &&
+      pos.y >= z.min.y && pos.y <= z.max.y &&
+      pos.z >= z.min.z && pos.z <= z.max.z,
+    ) ?? null;
+  }
+
+  isProtected(pos: Point): boolean {
+    return this.zoneAt(pos) !== null;
+  }
+
+  // ─── Private ───
+
+  private save(): void {
+    try {
+      fs.writeFileSync(ZONES_FILE, JSON.stringify(this.zones));
+    } catch (err: any) {
+      log.error(`Failed to save exclusion zones: ${err.message}`);
+    }
+  }
+
+  private load(): ExclusionZone[] {
+    try {
+      if (!fs.existsSync(ZONES_FILE)) return [];
+      return JSON.parse(fs.readFileSync(ZONES_FILE, 'utf8')) as ExclusionZone[];
+    } catch (err: any) {
+      log.error(`Failed to load exclusion zones: ${err.message}`);
+      return [];
+    }
+  }
+}
@@ -0,0 +1,100 @@
+import type { Bot } from 'mineflayer';
+import { Vec3 } from 'vec3';
+import type { Block } from 'prismarine-block';
+import type { BotEventBus } from '../core/event-bus.js';
+import type { AppConfig } from '../core/config.js';
+import { createLogger } from '../core/logger.js';
+
+const log = createLogger('Liquid');
+
+const LIQUIDS = new Set(['water', 'lava', 'flowing_water', 'flowing_lava']);
+
+const FACES = [
+  new Vec3(1, 0, 0), new Vec3(-1, 0, 0),
+  new Vec3(0, 1, 0), new Vec3(0, -1, 0),
+  new Vec3(0, 0, 1), new Vec3(0, 0, -1),
+];
+
+/** `clear`: safe to dig; `skip`: leave the target in place */
+export type LiquidCheck = 'clear' | 'sealed' | 'skip';
+
+/**
+ * Keeps the bot from opening a block that holds back water or lava.
+ * Liquids touching the target are sealed with a filler block placed on the
+ * target's face, or the target is skipped (config.liquidAction).
+ */
+export class LiquidGuard {
+  constructor(
+    private bot: Bot,
+    private eventBus: BotEventBus,
+    private config: AppConfig,
+  ) {}
+
+  /**
+   * Inspect the neighbours of `target` before it is dug.
+   * Must be called with the target within reach.
+   */
+  async protect(target: Block): Promise<LiquidCheck> {
+    const liquids = this.findLiquids(target.position);
+    if (liquids.length === 0) return 'clear';
+
+    for (const liquid of liquids) {
+      if (this.config.liquidAction === 'skip') {
+        this.report(target, liquid, 'skipped');
+        return 'skip';
+      }
+
+      const sealed = await this.seal(target, liquid);
+      this.report(target, liquid, sealed ? 'sealed' : 'skipped');
+      if (!sealed) return 'skip';
+    }
+
+    return 'sealed';
+  }
+
+  /**
+   * Whether a block name is one of the filler blocks, which the
+   * inventory keeps and scaffolding may use.
+   */
+  isFiller(name: string): boolean {
+    return this.config.fillerBlocks.includes(name);
+  }
+
+  // ─── Private ───
+
+  private findLiquids(pos: Vec3): Block[] {
+    const found: Block[] = [];
+    for (const face of FACES) {
+      const block = this.bot.blockAt(pos.plus(face));
+      if (block && LIQUIDS.has(block.name)) found.push(block);
+    }
+    return found;
+  }
+
+  /**
+   * Place filler into the liquid's position, against the target's face.
+   */
+  private async seal(target: Block, liquid: Block): Promise<boolean> {
+    const filler = this.bot.inventory.items().find(i => this.isFiller(i.name));
+    if (!filler) {
+      log.warn(`No filler blocks (${this.config.fillerBlocks.join(', ')}) to seal ${liquid.name}`);
+      return false;
+    }
+
+    try {
+      await this.bot.equip(filler, 'hand');
+      await this.bot.placeBlock(target, liquid.position.minus(target.position));
+    } catch (err: any) {
+      // placeBlock may time out waiting for the update even though it worked
+      log.debug(`Sealing placement reported: ${err.message}`);
+    }
+
+    const after = this.bot.blockAt(liquid.position);
+    return !!after && !LIQUIDS.has(after.name);
+  }
+
+  private report(target: Block, liquid: Block, action: 'sealed' | 'skipped'): void {
+    log.warn(`${liquid.name} at ${liquid.position} next to ${target.name} at ${target.position}: ${action}`);
+    this.eventBus.emit('safety:liquid-hazard', target.position.clone(), liquid.name, action);
+  }
+}
@@ -0,0 +1,148 @@
+import type { Bot } from 'mineflayer';
+import { Vec3 } from 'vec3';
+import type { BotEventBus } from '../core/event-bus.js';
+import type { AppConfig } from '../core/config.js';
+import type { NormalizedArea } from '../types.js';
+import type { ExclusionZones } from './exclusion-zones.js';
+import { createLogger } from '../core/logger.js';
+
+const log = createLogger('Torches');
+
+const TORCH_ITEM = 'torch';
+const LIGHT_BLOCKS = new Set(['torch', 'wall_torch', 'soul_torch', 'soul_wall_torch', 'lantern', 'soul_lantern']);
+const PLACE_REACH = 3;
+
+type Point = { x: number; y: number; z: number };
+
+/**
+ * Lights up the mined part of an area so mobs can't spawn in it.
+ * `grid` places torches at fixed X/Z spacing; `light` places one wherever
+ * the bot stands in the dark. Positions still queued for mining are never used.
+ */
+export class TorchPlacer {
+  private lastCheckedPos: Vec3 | null = null;
+  private lowWarned = false;
+
+  constructor(
+    private bot: Bot,
+    private eventBus: BotEventBus,
+    private config: AppConfig,
+    private exclusionZones: ExclusionZones,
+  ) {}
+
+  /**
+   * Place a torch near the bot if the current mode calls for one.
+   * Checked once per block the bot moves.
+   */
+  async placeIfNeeded(area: NormalizedArea, isQueued: (pos: Point) => boolean): Promise<void> {
+    if (this.config.torchMode === 'off' || !this.bot.entity) return;
+
+    const feet = this.bot.entity.position.floored();
+    if (this.lastCheckedPos?.equals(feet)) return;
+    this.lastCheckedPos = feet;
+
+    if (this.config.torchMode === 'light') {
+      const here = this.bot.blockAt(feet);
+      if (!here || here.light >= this.config.torchLightLevel) return;
+    }
+
+    const spot = this.findSpot(feet, area, isQueued);
+    if (!spot) return;
+
+    const torch = this.bot.inventory.items().find(i => i.name === TORCH_ITEM);
+    if (!torch) {
+      this.warnLow(0);
+      return;
+    }
+
+    try {
+      await this.bot.equip(torch, 'hand');
+      await this.bot.placeBlock(this.bot.blockAt(spot.offset(0, -1, 0))!, new Vec3(0, 1, 0));
+      log.debug(`Placed torch at ${spot}`);
+    } catch (err: any) {
+      log.debug(`Torch placement at ${spot} failed: ${err.message}`);
+    }
+
+    this.warnLow(this.countTorches());
+  }
+
+  // ─── Private ───
+
+  /**
+   * Nearest free spot within reach: air on a solid floor, inside the area
+   * and outside exclusion zones, neither it nor its floor still queued, and
+   * on the grid in grid mode.
+   */
+  private findSpot(feet: Vec3, area: NormalizedArea, isQueued: (pos: Point) => boolean): Vec3 | null {
+    let best: Vec3 | null = null;
+    let bestDist = Infinity;
+    const spacing = this.config.torchSpacing;
+
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -PLACE_REACH; dx <= PLACE_REACH; dx++) {
+        for (let dz = -PLACE_REACH; dz <= PLACE_REACH; dz++) {
+          const pos = feet.offset(dx, dy, dz);
+          if (this.config.torchMode === 'grid' && (mod(pos.x, spacing) !== 0 || mod(pos.z, spacing) !== 0)) continue;
+
+          const dist = dx * dx + dy * dy + dz * dz;
+          if (dist >= bestDist || !this.isFreeSpot(pos, area, isQueued)) continue;
+          best = pos;
+          bestDist = dist;
+        }
+      }
+    }
+
+    // In light mode a torch already lighting the spot means nothing to do
+    if (best && this.config.torchMode === 'light' && this.hasLightNear(best)) return null;
+    return best;
+  }
+
+  private isFreeSpot(pos: Vec3, area: NormalizedArea, isQueued: (pos: Point) => boolean): boolean {
+    if (pos.x < area.min.x || pos.x > area.max.x ||
+        pos.y < area.min.y || pos.y > area.max.y ||
+        pos.z < area.min.z || pos.z > area.max.z) return false;
+    if (this.exclusionZones.isProtected(pos)) return false;
+
+    const block = this.bot.blockAt(pos);
+    const floor = this.bot.blockAt(pos.offset(0, -1, 0));
+    if (!block || !floor || (block.name !== 'air' && block.name !== 'cave_air')) return false;
+    if (floor.boundingBox !== 'block') return false;
+
+    return !isQueued(pos) && !isQueued(floor.position);
+  }
+
+  private hasLightNear(pos: Vec3): boolean {
+    const r = Math.max(1, Math.floor(this.config.torchSpacing / 2));
+    return this.bot.findBlocks({
+      point: pos,
+      matching: b => LIGHT_BLOCKS.has(b.name),
+      maxDistance: r,
+      count: 1,
+    }).length > 0;
+  }
+
+  private countTorches(): number {
+    return this.bot.inventory.items()
+      .filter(i => i.name === TORCH_ITEM)
+      .reduce((sum, i) => sum + i.count, 0);
+  }
+
+  /**
+   * Warn once when the stock drops to the threshold; re-arms after a refill.
+   */
+  private warnLow(count: number): void {
+    if (count > this.config.torchLowThreshold) {
+      this.lowWarned = false;
+      return;
+    }
+    if (this.lowWarned) return;
+    this.lowWarned = true;
+
+    log.warn(count === 0 ? 'Out of torches' : `Only ${count} torches left`);
+    this.eventBus.emit('inventory:torches-low', count);
+  }
+}
+
+function mod(n: number, m: number): number {
+  return ((n % m) + m) % m;
+}
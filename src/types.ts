@@ -12,15 +12,123 @@ export interface NormalizedArea {
   max: Vec3;
 }
 
-export type MiningStatus = 'idle' | 'mining' | 'paused' | 'finished' | 'error' | 'traveling';
+export interface BoxShape {
+  min: { x: number; y: number; z: number };
+  max: { x: number; y: number; z: number };
+}
+
+/**
+ * Non-cuboid job area. Plain JSON so it can be saved with the job options.
+ * Polygon points and cylinder centres are in the XZ plane.
+ */
+export type AreaShape =
+  | { type: 'sphere'; center: { x: number; y: number; z: number }; radius: number }
+  | { type: 'cylinder'; center: { x: number; z: number }; radius: number; minY: number; maxY: number }
+  | { type: 'polygon'; points: { x: number; z: number }[]; minY: number; maxY: number }
+  /** Union of `include` minus the union of `exclude` */
+  | { type: 'boxes'; include: BoxShape[]; exclude?: BoxShape[] };
+
+export type MiningStatus = 'idle' | 'mining' | 'filling' | 'paused' | 'finished' | 'error' | 'traveling';
+
+/** What the engine is busy with inside its current status */
+export type MiningActivityKind =
+  | 'scanning' | 'verifying' | 'depositing' | 'restocking' | 'navigating' | 'crafting'
+  /** Reasons for an automatic pause */
+  | 'healing' | 'bad_connection' | 'inventory_full' | 'out_of_blocks' | 'no_tool';
+
+export interface MiningActivity {
+  kind: MiningActivityKind;
+  /** Human-readable, for the panel */
+  message: string;
+}
+
+export interface BlockFilter {
+  /** Profile the filter came from, or 'custom' */
+  profile: string;
+  mode: 'all' | 'include' | 'exclude';
+  /** Block names; `*` acts as a wildcard */
+  blocks: string[];
+}
+
+export interface FillOptions {
+  /** Block (and item) name to place */
+  block: string;
+}
+
+export interface VeinOptions {
+  /** How far past the job area a vein may be followed */
+  radius: number;
+  /** Upper bound on blocks mined per vein */
+  maxBlocks: number;
+}
+
+export interface MiningOptions {
+  /** Queue job this run belongs to; persisted so a resume can reattach to it */
+  jobId?: string;
+  filter?: BlockFilter;
+  /** Follow and mine whole ore veins as they are found */
+  vein?: VeinOptions;
+  /** Planner name; saved with progress so a resume walks the same order */
+  planner?: string;
+  /** Rescan the area after the last pass and mine anything left behind */
+  verify?: boolean;
+  /** Only positions inside the shape are mined; the area is its bounding box */
+  shape?: AreaShape;
+  /** Place this block into every air position instead of mining */
+  fill?: FillOptions;
+}
+
+/** Outcome of the post-completion verification sweep */
+export interface VerificationSummary {
+  /** Minable blocks the rescan found still standing */
+  leftover: number;
+  mined: number;
+  /** Leftovers that could not be dug (see the failure list) */
+  failed: number;
+  /** Positions in chunks that weren't loaded, so never checked */
+  unverified: number;
+  durationMs: number;
+}
+
+/** `liquid_hazard`: left in place on purpose, never retried */
+export type FailureReason =
+  | 'dig_timeout' | 'not_visible' | 'path_timeout' | 'dig_error' | 'liquid_hazard'
+  /** No tool of a tier that can harvest the block */
+  | 'no_tool'
+  /** Fill mode */
+  | 'place_error' | 'no_support';
+
+export interface BlockFailure {
+  pos: { x: number; y: number; z: number };
+  blockName: string;
+  reason: FailureReason;
+  /** Dig attempts over all passes */
+  attempts: number;
+  /** Whether the retry pass has already had a go at it */
+  retried: boolean;
+  timestamp: number;
+}
+
+/** Where a run is in its position list, and how many matching blocks it dug */
+export interface MiningProgress {
+  positionIndex: number;
+  minedBlocks: number;
+  /** Targets skipped because their chunk wasn't loaded */
+  revisit?: { x: number; y: number; z: number }[];
+  failures?: BlockFailure[];
+}
 
 export interface MiningState {
   status: MiningStatus;
   area: NormalizedArea | null;
   totalBlocks: number;
   minedBlocks: number;
+  revisitBlocks: number;
+  failedBlocks: number;
   currentTool: string | null;
   botPosition: { x: number; y: number; z: number } | null;
+  activity: MiningActivity | null;
+  /** Set only in the `error` status */
   error: string | null;
   health: number;
   food: number;
@@ -28,6 +136,167 @@ export interface MiningState {
   tps: number;
 }
 
+export interface AreaScanResult {
+  area: NormalizedArea;
+  /** Loaded blocks that pass the filter and will be dug */
+  minable: number;
+  /** Positions in chunks that weren't loaded; their contents are unknown */
+  unloaded: number;
+  /** Minable blocks per block name, most common first */
+  byType: Record<string, number>;
+  scannedAt: number;
+  durationMs: number;
+}
+
+/** One stack in the bot's inventory window */
+export interface InventoryItem {
+  /** Window slot: 5-8 armor, 9-35 main, 36-44 hotbar, 45 offhand */
+  slot: number;
+  name: string;
+  displayName: string;
+  count: number;
+  /** Uses left; null for items that don't wear */
+  durability: number | null;
+  maxDurability: number | null;
+  enchants: { name: string; lvl: number }[];
+}
+
+export interface InventorySnapshot {
+  /** Slots 9-44 in order; the last nine are the hotbar */
+  main: (InventoryItem | null)[];
+  armor: {
+    head: InventoryItem | null;
+    torso: InventoryItem | null;
+    legs: InventoryItem | null;
+    feet: InventoryItem | null;
+  };
+  offhand: InventoryItem | null;
+  /** Selected hotbar index, 0-8 */
+  activeSlot: number;
+}
+
+/** A tool in the bot's inventory */
+export interface ToolInfo {
+  name: string;
+  displayName: string;
+  slot: number;
+  /** Uses left */
+  durability: number;
+  maxDurability: number;
+  enchants: { name: string; lvl: number }[];
+  /** False at or below the durability floor; such a tool is never equipped */
+  usable: boolean;
+}
+
+export interface ToolReport {
+  floor: number;
+  warnAt: number;
+  tools: ToolInfo[];
+  warnings: string[];
+}
+
+/** Expected wear on one tool over a simulated job */
+export interface ToolWear {
+  /** Item name, or 'hand' */
+  tool: string;
+  blocks: number;
+  /** Uses left above the durability floor at the start; null for the hand */
+  durability: number | null;
+  /** Whether the tool reaches the floor (and is retired) before the job is done */
+  breaks: boolean;
+}
+
+export interface SimulationHazard {
+  kind: 'lava' | 'water' | 'unloaded';
+  pos: { x: number; y: number; z: number };
+}
+
+/** Dry run of a mining job against the loaded world */
+export interface SimulationResult {
+  area: NormalizedArea;
+  planner: string;
+  /** Planned positions that are part of the job */
+  positions: number;
+  /** Loaded blocks that would be dug, in planner order */
+  minable: number;
+  byType: Record<string, number>;
+  tools: ToolWear[];
+  /** Blocks dug without a tool able to harvest them; they drop nothing */
+  unharvestable: number;
+  estimate: { digMs: number; travelMs: number; overheadMs: number; totalMs: number };
+  chestTrips: number;
+  hazards: {
+    lava: number;
+    water: number;
+    unloaded: number;
+    /** First few of each kind */
+    samples: SimulationHazard[];
+  };
+  durationMs: number;
+}
+
+// ─── Jobs ───
+
+export type JobStatus = 'queued' | 'active' | 'done' | 'failed' | 'cancelled';
+
+export interface MiningJob {
+  id: string;
+  name: string;
+  area: NormalizedArea;
+  options: Omit<MiningOptions, 'jobId'>;
+  status: JobStatus;
+  minedBlocks: number;
+  totalBlocks: number;
+  createdAt: number;
+  startedAt: number | null;
+  finishedAt: number | null;
+  error: string | null;
+  verification?: VerificationSummary;
+}
+
+// ─── Coordination ───
+
+export type SliceStatus = 'pending' | 'active' | 'done' | 'failed';
+
+/** One disjoint part of a coordinated area, mined by one bot at a time */
+export interface CoordinatedSlice {
+  id: number;
+  area: NormalizedArea;
+  status: SliceStatus;
+  botId: string | null;
+  minedBlocks: number;
+  totalBlocks: number;
+  error: string | null;
+}
+
+export interface CoordinatorStatus {
+  area: NormalizedArea;
+  options: Omit<MiningOptions, 'jobId'>;
+  slices: CoordinatedSlice[];
+  startedAt: number;
+  finishedAt: number | null;
+}
+
+export interface BotSummary {
+  id: string;
+  /** Spawned and done with its boot-time resume */
+  ready: boolean;
+  status: MiningStatus;
+  minedBlocks: number;
+  totalBlocks: number;
+}
+
+// ─── Safety ───
+
+/** A protected box the bot must never dig into */
+export interface ExclusionZone {
+  id: string;
+  name: string;
+  min: { x: number; y: number; z: number };
+  max: { x: number; y: number; z: number };
+  createdAt: number;
+}
+
 // ─── Network ───
 
 export interface PingData {
@@ -42,6 +311,8 @@ export interface MiningStats {
   sessionDuration: number;
   totalBlocksMined: number;
   blocksPerMinute: number;
+  /** Blocks left in the current run, from the engine's scanned total */
+  remainingBlocks: number | null;
   estimatedTimeRemaining: number | null;
 }
 
@@ -74,4 +345,13 @@ export interface SlotInfo {
 export interface SavedMiningState {
   area: { min: { x: number; y: number; z: number }; max: { x: number; y: number; z: number } };
   minedBlocks: number;
+  /** Missing in files written before filters existed; minedBlocks was the index then */
+  positionIndex?: number;
+  revisit?: MiningProgress['revisit'];
+  failures?: BlockFailure[];
+  options?: MiningOptions;
+}
+
+export interface SavedJob extends Omit<MiningJob, 'area'> {
+  area: SavedMiningState['area'];
 }